@@ -0,0 +1,223 @@
+import type { NumberLine } from "./number-line";
+
+/** Maps the progress of an animation in [0,1] to the progress of the animated values */
+export type Easing = (t: number) => number;
+
+export const linear: Easing = (t) => t;
+
+export const easeInOutCubic: Easing = (t) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+export const easeOutCubic: Easing = (t) => 1 - Math.pow(1 - t, 3);
+
+/**
+ * The source of time and frames for animations. Inject a {@link ManualClock}
+ * to step animations deterministically.
+ */
+export interface IAnimationClock {
+	/** Current time in milliseconds */
+	now(): number;
+	/**
+	 * Calls the callback on the next frame
+	 * @returns A handle that can be passed to {@link cancelFrame}
+	 */
+	requestFrame(callback: () => void): unknown;
+	cancelFrame(handle: unknown): void;
+}
+
+/** Clock driven by requestAnimationFrame, falling back to timers where there is no DOM */
+export const frameClock: IAnimationClock = {
+	now: () => typeof performance != "undefined" ? performance.now() : Date.now(),
+	requestFrame: (callback) => typeof requestAnimationFrame != "undefined" ? requestAnimationFrame(callback) : setTimeout(callback, 16),
+	cancelFrame: (handle) => {
+		if(typeof cancelAnimationFrame != "undefined"){
+			cancelAnimationFrame(handle as number);
+		}
+		else{
+			clearTimeout(handle as ReturnType<typeof setTimeout>);
+		}
+	}
+};
+
+/** A clock that only moves when told to. Every {@link advance} is one frame. */
+export class ManualClock implements IAnimationClock {
+
+	private time = 0;
+	private nextHandle = 1;
+	private callbacks = new Map<number, () => void>();
+
+	now(): number {
+		return this.time;
+	}
+
+	requestFrame(callback: () => void): number {
+		const handle = this.nextHandle++;
+		this.callbacks.set(handle, callback);
+		return handle;
+	}
+
+	cancelFrame(handle: unknown) {
+		this.callbacks.delete(handle as number);
+	}
+
+	/**
+	 * Moves the time forward and runs the callbacks requested till now
+	 * @param milliseconds The time to move forward by
+	 */
+	advance(milliseconds: number) {
+		this.time += milliseconds;
+		const due = [...this.callbacks.values()];
+		this.callbacks.clear();
+		due.forEach(callback => callback());
+	}
+}
+
+/** The state to animate a number line to. Anything left out stays as it is. */
+export interface IAnimationTarget {
+	magnification?: number;
+	displacement?: number;
+}
+
+export interface IAnimationOptions {
+	/**
+	 * Duration of the animation in milliseconds
+	 * @default 300
+	 */
+	duration?: number;
+	/** @default easeInOutCubic */
+	easing?: Easing;
+	/**
+	 * Position that stays fixed while zooming when the target has no displacement,
+	 * like the hinge of {@link NumberLine.zoomAround}. Without it the displacement stays as it is.
+	 */
+	hinge?: number;
+	/** @default frameClock */
+	clock?: IAnimationClock;
+}
+
+/** Number lines that are being animated, so that a new animation can take over from the running one */
+const runningAnimations = new WeakMap<NumberLine, NumberLineAnimation>();
+
+/**
+ * Animates the magnification and displacement of a number line. Values are interpolated in the
+ * (linear) value space, so the one value that sits at the same position at the start and the end
+ * stays fixed throughout, instead of drifting as it would by interpolating the displacement.
+ * Starting another animation of the same number line cancels this one.
+ */
+export class NumberLineAnimation {
+
+	/** Resolves with true when the animation completes, false if it is cancelled */
+	readonly finished: Promise<boolean>;
+
+	private resolve: (completed: boolean) => void;
+	private frame: unknown = null;
+	private startedAt: number;
+	private _running = true;
+	private readonly clock: IAnimationClock;
+	private readonly duration: number;
+	private readonly easing: Easing;
+	private readonly fromMagnification: number;
+	private readonly toMagnification: number;
+	private readonly fromDisplacement: number;
+	private readonly toDisplacement: number;
+	/** Linear value that stays at the same position, NaN when the scale doesn't change */
+	private readonly fixedValue: number = NaN;
+	private readonly fixedPosition: number = NaN;
+
+	constructor(private numberLine: NumberLine, target: IAnimationTarget, options: IAnimationOptions = {}) {
+		this.finished = new Promise(resolve => this.resolve = resolve);
+		this.clock = options.clock || frameClock;
+		this.duration = options.duration ?? 300;
+		this.easing = options.easing || easeInOutCubic;
+		this.fromMagnification = numberLine.magnification;
+		this.toMagnification = target.magnification ?? numberLine.magnification;
+		this.fromDisplacement = numberLine.displacement;
+		const fromScale = numberLine.unitLength / numberLine.unitValue;
+		const toScale = this.scaleAt(this.toMagnification);
+		if(target.displacement != undefined){
+			this.toDisplacement = target.displacement;
+		}
+		else if(options.hinge != undefined){
+			// keep the linear value at the hinge, (hinge + displacement)/scale, under the hinge
+			const hinge = numberLine.toNaturalPosition(options.hinge);
+			this.toDisplacement = toScale * (hinge + this.fromDisplacement) / fromScale - hinge;
+		}
+		else{
+			this.toDisplacement = this.fromDisplacement;
+		}
+		if(Math.abs(fromScale - toScale) > 1e-12 * Math.max(fromScale, toScale)){
+			// solves fromScale * value - fromDisplacement = toScale * value - toDisplacement
+			this.fixedValue = (this.fromDisplacement - this.toDisplacement) / (fromScale - toScale);
+			this.fixedPosition = fromScale * this.fixedValue - this.fromDisplacement;
+		}
+
+		runningAnimations.get(numberLine)?.cancel();
+		runningAnimations.set(numberLine, this);
+		this.startedAt = this.clock.now();
+		if(this.duration <= 0){
+			this.complete();
+		}
+		else{
+			this.frame = this.clock.requestFrame(() => this.tick());
+		}
+	}
+
+	/** False once the animation completes or is cancelled */
+	get running(): boolean {
+		return this._running;
+	}
+
+	/** Stops the animation where it is */
+	cancel() {
+		if(!this._running){
+			return;
+		}
+		this.clock.cancelFrame(this.frame);
+		this.stop(false);
+	}
+
+	private tick() {
+		const progress = Math.min(1, (this.clock.now() - this.startedAt) / this.duration);
+		if(progress >= 1){
+			this.complete();
+			return;
+		}
+		this.apply(this.easing(progress));
+		this.frame = this.clock.requestFrame(() => this.tick());
+	}
+
+	private apply(progress: number) {
+		const numberLine = this.numberLine;
+		numberLine.batch(() => {
+			numberLine.zoomTo(this.fromMagnification + (this.toMagnification - this.fromMagnification) * progress);
+			if(isNaN(this.fixedValue)){
+				numberLine.panTo(this.fromDisplacement + (this.toDisplacement - this.fromDisplacement) * progress);
+			}
+			else{
+				numberLine.panTo(numberLine.unitLength / numberLine.unitValue * this.fixedValue - this.fixedPosition);
+			}
+		});
+	}
+
+	private complete() {
+		const numberLine = this.numberLine;
+		numberLine.batch(() => {
+			numberLine.zoomTo(this.toMagnification);
+			numberLine.panTo(this.toDisplacement);
+		});
+		this.stop(true);
+	}
+
+	private stop(completed: boolean) {
+		this._running = false;
+		this.frame = null;
+		if(runningAnimations.get(this.numberLine) == this){
+			runningAnimations.delete(this.numberLine);
+		}
+		this.resolve(completed);
+	}
+
+	private scaleAt(magnification: number): number {
+		const strategy = this.numberLine.zoomStrategy;
+		return strategy.unitLengthAt(magnification, this.numberLine) / strategy.unitValueAt(magnification, this.numberLine);
+	}
+}
@@ -0,0 +1,109 @@
+import type { NumberLineViewModel } from "./number-line";
+
+export interface IAsciiRendererOptions {
+	/**
+	 * Width of the text in characters, the length of the view model is scaled to fit
+	 * @default the length of the view model, rounded up
+	 */
+	columns?: number;
+	/**
+	 * Rows of tick marks above the baseline. The tallest tick marks fill all of them,
+	 * the ones shorter than a row only mark the baseline.
+	 * @default 2
+	 */
+	rows?: number;
+	/**
+	 * Draws with box drawing characters instead of plain ASCII
+	 * @default false
+	 */
+	unicode?: boolean;
+}
+
+/** Characters of the two character sets */
+interface Glyphs {
+	baseline: string;
+	tick: string;
+	/** Where a tick mark meets the baseline */
+	foot: string;
+}
+
+const ASCII_GLYPHS: Glyphs = { baseline: "-", tick: "|", foot: "+" };
+const UNICODE_GLYPHS: Glyphs = { baseline: "─", tick: "│", foot: "┴" };
+
+/**
+ * Renders a view model into monospaced text for terminals and readable test snapshots. Tick marks
+ * rise from a baseline as tall as their height relative to the biggest value of the pattern, and labels
+ * are centered under them. Labels that would overlap others are left out, giving way to the labels of
+ * taller tick marks. Vertical number lines are drawn along the row as well.
+ * Trailing spaces are trimmed from every line.
+ * @param viewModel The view model to render
+ * @param options Size and characters
+ * @returns The lines of text, joined by line feeds
+ */
+export function renderAscii(viewModel: NumberLineViewModel, options: IAsciiRendererOptions = {}): string {
+	const columns = options.columns ?? Math.ceil(viewModel.length);
+	const rows = options.rows ?? 2;
+	if(!(columns >= 1) || !(rows >= 0)){
+		throw new Error("There must be at least one column and no negative rows");
+	}
+	const glyphs = options.unicode ? UNICODE_GLYPHS : ASCII_GLYPHS;
+	const tallest = viewModel.numberLine.biggestTickPatternValue;
+	const columnOf = (position: number) => viewModel.length > 0 && columns > 1
+		? Math.round((position - viewModel.start) / viewModel.length * (columns - 1))
+		: 0;
+
+	// the tallest tick mark of every column, in rows
+	const heights = new Map<number, number>();
+	const columnTicks = viewModel.tickMarks
+		.map(tickMark => ({ tickMark: tickMark, column: columnOf(tickMark.position) }))
+		.filter(({ column }) => column >= 0 && column < columns);
+	for(const { tickMark, column } of columnTicks){
+		const height = Math.round(tickMark.height / tallest * rows);
+		heights.set(column, Math.max(height, heights.get(column) ?? 0));
+	}
+
+	const lines: string[] = [];
+	for(let row = rows; row >= 1; row--){
+		const line = new Array<string>(columns).fill(" ");
+		for(const [column, height] of heights){
+			if(height >= row){
+				line[column] = glyphs.tick;
+			}
+		}
+		lines.push(line.join(""));
+	}
+	const baseline = new Array<string>(columns).fill(glyphs.baseline);
+	for(const column of heights.keys()){
+		baseline[column] = glyphs.foot;
+	}
+	lines.push(baseline.join(""));
+	lines.push(labelLine(columnTicks, columns));
+	return lines.map(line => line.trimEnd()).join("\n");
+}
+
+/** Places the labels of taller tick marks first, skipping the ones that would touch a placed label */
+function labelLine(columnTicks: { tickMark: { label: string, height: number }, column: number }[], columns: number): string {
+	const line = new Array<string>(columns).fill(" ");
+	const taken = new Array<boolean>(columns).fill(false);
+	const labelled = columnTicks
+		.filter(({ tickMark }) => tickMark.label != null && tickMark.label.length > 0)
+		// stable, so labels of equally tall tick marks are placed from the start
+		.sort((a, b) => b.tickMark.height - a.tickMark.height);
+	for(const { tickMark, column } of labelled){
+		const label = [...tickMark.label];
+		if(label.length > columns){
+			continue;
+		}
+		const start = Math.min(Math.max(0, column - Math.floor((label.length - 1) / 2)), columns - label.length);
+		const end = start + label.length;
+		// a space must be left on both sides
+		if(taken.slice(Math.max(0, start - 1), Math.min(columns, end + 1)).some(Boolean)){
+			continue;
+		}
+		label.forEach((character, i) => {
+			line[start + i] = character;
+			taken[start + i] = true;
+		});
+	}
+	return line.join("");
+}
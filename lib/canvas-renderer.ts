@@ -0,0 +1,262 @@
+import type { NumberLineViewModel } from "./number-line";
+
+/** Colors, fonts and sizes of a {@link CanvasRenderer} */
+export interface ICanvasTheme {
+	/** Fill behind the number line, null for a transparent canvas */
+	background: string | null;
+	tickColor: string;
+	/** Width of the tick marks in CSS pixels */
+	tickWidth: number;
+	/** Length of the tallest tick marks, as a fraction of the breadth of the canvas */
+	tickLength: number;
+	labelColor: string;
+	/** A CSS font, like "12px sans-serif" */
+	font: string;
+	/** Space between the tallest tick marks and the labels in CSS pixels */
+	labelGap: number;
+	/** Color of markers and ranges without a style in {@link styles} */
+	annotationColor: string;
+	/** Colors of markers and ranges by their style keys */
+	styles: { [style: string]: string };
+	/** Color of the zigzag drawn over the breaks of a segmented number line */
+	breakColor: string;
+}
+
+export const defaultCanvasTheme: ICanvasTheme = {
+	background: null,
+	tickColor: "rgba(15, 23, 42, 0.6)",
+	tickWidth: 1,
+	tickLength: 0.5,
+	labelColor: "rgba(30, 41, 59, 0.95)",
+	font: "12px sans-serif",
+	labelGap: 4,
+	annotationColor: "rgba(37, 99, 235, 0.9)",
+	styles: {},
+	breakColor: "rgba(15, 23, 42, 0.6)"
+};
+
+export interface ICanvasRendererOptions {
+	/** Overrides of the default theme */
+	theme?: Partial<ICanvasTheme>;
+	/**
+	 * Device pixels per CSS pixel
+	 * @default window.devicePixelRatio, or 1 without a window
+	 */
+	devicePixelRatio?: number;
+}
+
+/**
+ * Draws number line view models on a 2D canvas, as a faster alternative to the HTML renderer
+ * when there are hundreds of tick marks. Tick marks hang from the top edge of horizontal number
+ * lines and from the right edge of vertical ones, with the labels beyond them. Lines are aligned
+ * to device pixels so that they stay crisp, and frames that look the same as the previous one
+ * aren't drawn again.
+ */
+export class CanvasRenderer {
+
+	private readonly context: CanvasRenderingContext2D;
+	private _theme: ICanvasTheme;
+	private devicePixelRatio: number;
+	private width = 0;
+	private height = 0;
+	/** Describes what was drawn last, so that unchanged frames can be skipped */
+	private lastFrame: string = null;
+
+	constructor(readonly canvas: HTMLCanvasElement, options: ICanvasRendererOptions = {}) {
+		const context = canvas.getContext("2d");
+		if(context == null){
+			throw new Error("2D canvas not supported");
+		}
+		this.context = context;
+		this._theme = { ...defaultCanvasTheme, ...options.theme };
+		this.devicePixelRatio = options.devicePixelRatio ?? (typeof window != "undefined" ? window.devicePixelRatio || 1 : 1);
+	}
+
+	get theme(): Readonly<ICanvasTheme> {
+		return this._theme;
+	}
+
+	/** Replaces the theme, filling in anything left out from the default theme. The next frame is drawn again. */
+	set theme(theme: Readonly<ICanvasTheme>) {
+		this._theme = { ...defaultCanvasTheme, ...theme };
+		this.lastFrame = null;
+	}
+
+	/**
+	 * Sizes the canvas for the device pixel ratio
+	 * @param width Width in CSS pixels
+	 * @param height Height in CSS pixels
+	 * @param devicePixelRatio Device pixels per CSS pixel, the current one if unspecified
+	 */
+	resize(width: number, height: number, devicePixelRatio = this.devicePixelRatio) {
+		this.width = width;
+		this.height = height;
+		this.devicePixelRatio = devicePixelRatio;
+		this.canvas.width = Math.max(1, Math.round(width * devicePixelRatio));
+		this.canvas.height = Math.max(1, Math.round(height * devicePixelRatio));
+		this.canvas.style.width = `${width}px`;
+		this.canvas.style.height = `${height}px`;
+		this.lastFrame = null;
+	}
+
+	/**
+	 * Draws a view model, unless it looks the same as the last one drawn
+	 * @param viewModel The view model, built for the width of a horizontal number line or the height of a vertical one
+	 * @returns False if the frame was skipped
+	 */
+	render(viewModel: NumberLineViewModel): boolean {
+		const lengthwise = viewModel.numberLine.orientation != "vertical";
+		const frame = describeFrame(viewModel, lengthwise);
+		if(frame == this.lastFrame){
+			return false;
+		}
+		this.lastFrame = frame;
+
+		const context = this.context;
+		const theme = this._theme;
+		const ratio = this.devicePixelRatio;
+		const breadth = lengthwise ? this.height : this.width;
+		const tallest = viewModel.numberLine.biggestTickPatternValue;
+		context.setTransform(ratio, 0, 0, ratio, 0, 0);
+		context.clearRect(0, 0, this.width, this.height);
+		if(theme.background != null){
+			context.fillStyle = theme.background;
+			context.fillRect(0, 0, this.width, this.height);
+		}
+
+		// draws along the number line with x and across it with y, rotating vertical number lines
+		// so that their far edge(y = breadth) ends up on the left
+		context.save();
+		if(!lengthwise){
+			context.setTransform(0, ratio, -ratio, 0, this.width * ratio, 0);
+		}
+
+		for(const range of viewModel.ranges){
+			if(range.offscreen == null && range.end > range.start){
+				context.globalAlpha = 0.25;
+				context.fillStyle = this.colorOf(range.style);
+				context.fillRect(range.start, 0, range.end - range.start, breadth);
+				context.globalAlpha = 1;
+			}
+		}
+
+		context.strokeStyle = theme.tickColor;
+		context.lineWidth = theme.tickWidth;
+		context.beginPath();
+		for(const tickMark of viewModel.tickMarks){
+			const position = crispPosition(tickMark.position, theme.tickWidth, ratio);
+			context.moveTo(position, 0);
+			context.lineTo(position, tickMark.height / tallest * theme.tickLength * breadth);
+		}
+		context.stroke();
+
+		for(const markerBreak of viewModel.breaks ?? []){
+			this.drawBreak(markerBreak.start, markerBreak.end, breadth);
+		}
+
+		for(const marker of viewModel.markers){
+			context.strokeStyle = this.colorOf(marker.style);
+			context.lineWidth = 2;
+			context.beginPath();
+			const position = crispPosition(marker.clippedPosition, 2, ratio);
+			if(marker.offscreen == null){
+				context.moveTo(position, 0);
+				context.lineTo(position, breadth);
+			}
+			else{
+				// an arrow at the edge, pointing towards the marker
+				const direction = marker.offscreen == "start" ? 1 : -1;
+				context.moveTo(position + direction * 8, breadth / 2 - 6);
+				context.lineTo(position, breadth / 2);
+				context.lineTo(position + direction * 8, breadth / 2 + 6);
+			}
+			context.stroke();
+		}
+		context.restore();
+
+		this.drawLabels(viewModel, lengthwise, breadth);
+		return true;
+	}
+
+	/** Forgets the last frame, so that the next one is drawn even if it looks the same */
+	invalidate() {
+		this.lastFrame = null;
+	}
+
+	private drawLabels(viewModel: NumberLineViewModel, lengthwise: boolean, breadth: number) {
+		const context = this.context;
+		const theme = this._theme;
+		// labels are drawn upright, so they are placed in the unrotated space
+		const labelOffset = theme.tickLength * breadth + theme.labelGap;
+		context.fillStyle = theme.labelColor;
+		context.font = theme.font;
+		context.textAlign = lengthwise ? "center" : "right";
+		context.textBaseline = lengthwise ? "top" : "middle";
+		for(const tickMark of viewModel.tickMarks){
+			if(tickMark.label == null){
+				continue;
+			}
+			if(lengthwise){
+				context.fillText(tickMark.label, tickMark.position, labelOffset);
+			}
+			else{
+				context.fillText(tickMark.label, this.width - labelOffset, tickMark.position);
+			}
+		}
+	}
+
+	/** Clears the break and draws a zigzag at both of its ends */
+	private drawBreak(start: number, end: number, breadth: number) {
+		const context = this.context;
+		context.clearRect(start, 0, end - start, breadth);
+		if(this._theme.background != null){
+			context.fillStyle = this._theme.background;
+			context.fillRect(start, 0, end - start, breadth);
+		}
+		context.strokeStyle = this._theme.breakColor;
+		context.lineWidth = 1;
+		context.beginPath();
+		const slant = Math.min(4, (end - start) / 2);
+		for(const edge of [start, end]){
+			context.moveTo(edge - slant, breadth * 0.75);
+			context.lineTo(edge + slant, breadth * 0.25);
+		}
+		context.stroke();
+	}
+
+	private colorOf(style: string): string {
+		return style != undefined ? this._theme.styles[style] ?? this._theme.annotationColor : this._theme.annotationColor;
+	}
+}
+
+/**
+ * Aligns the center of a line to the device pixel grid, so that it covers whole device pixels
+ * instead of blurring over 2 of them. Lines covering an odd number of device pixels are centered
+ * at half pixels.
+ * @param position Position of the line in CSS pixels
+ * @param lineWidth Width of the line in CSS pixels
+ * @param devicePixelRatio Device pixels per CSS pixel
+ * @returns The aligned position in CSS pixels
+ */
+export function crispPosition(position: number, lineWidth: number, devicePixelRatio: number): number {
+	const offset = Math.max(1, Math.round(lineWidth * devicePixelRatio)) % 2 == 1 ? 0.5 : 0;
+	return (Math.round(position * devicePixelRatio - offset) + offset) / devicePixelRatio;
+}
+
+/** Everything that is drawn for a view model, in a string that is cheap to compare */
+function describeFrame(viewModel: NumberLineViewModel, lengthwise: boolean): string {
+	const parts: (string | number)[] = [lengthwise ? "h" : "v"];
+	for(const tickMark of viewModel.tickMarks){
+		parts.push(tickMark.position, tickMark.height, tickMark.label ?? "");
+	}
+	for(const markerBreak of viewModel.breaks ?? []){
+		parts.push("break", markerBreak.start, markerBreak.end);
+	}
+	for(const marker of viewModel.markers){
+		parts.push("marker", marker.clippedPosition, marker.offscreen ?? "", marker.style ?? "");
+	}
+	for(const range of viewModel.ranges){
+		parts.push("range", range.start, range.end, range.style ?? "");
+	}
+	return parts.join("|");
+}
@@ -1,82 +1,223 @@
-import { NumberLine, NumberLineViewModel, TickMarkViewModel } from "number-line";
-
-export function render(numberLine:NumberLine,container:HTMLElement|string,lengthwise = true) {
-	let div!:HTMLElement;
-	if(container instanceof HTMLElement){
-		div = container;
-	}else{
-		div = document.querySelector(container)! as HTMLElement;
-	}
+import { NumberLine, NumberLineViewModel, TickMarkViewModel } from "./number-line";
+import { ViewModelBuilder } from "./view-model-builder";
+
+/**
+ * Default look of the rulers, added to the page once by every {@link HtmlRuler} unless turned off.
+ * Only positions and tick mark heights are set inline, so any of these can be overridden by a stylesheet.
+ */
+export const htmlRulerCss = `
+.nl-ruler{position:relative;user-select:none;background:rgb(246,246,246);}
+.nl-ruler-horizontal{width:100%;height:50px;border-bottom:1px solid black;overflow-x:clip;}
+.nl-ruler-vertical{width:50px;height:100%;border-right:1px solid black;overflow-y:clip;}
+.nl-tick{position:absolute;background:black;opacity:0.6;}
+.nl-tick-major{opacity:1;}
+.nl-ruler-horizontal .nl-tick{width:1px;bottom:0;}
+.nl-ruler-vertical .nl-tick{height:1px;right:0;}
+.nl-label{position:absolute;color:black;white-space:nowrap;}
+.nl-ruler-horizontal .nl-label{top:100%;transform:translate(-50%,0%);}
+.nl-ruler-vertical .nl-label{right:100%;transform:translate(0%,-50%);}
+`;
+
+const STYLE_ID = "nl-ruler-styles";
 
-	div.style.position = "relative";
-	div.style.width = "100%";
-	div.style.height = "50px";
-	div.style.borderBottom = '1px solid black';
-	div.style.background = 'rgb(246, 246, 246)';
-	// prevent the user from selecting any label text
-	div.style.userSelect = 'none';
-	
-	// compute the bounding client rect of the div
-	const size = div.getBoundingClientRect();
-	let length!:number;
-	if(lengthwise){
-		length = size.width;
-		div.style.overflowX = 'clip';
-	}else{
-		length = size.height;
-		div.style.overflowY = 'clip';
+export interface IHtmlRulerOptions{
+	/**
+	 * True to lay the ruler out horizontally
+	 * @default true unless the number line is vertical
+	 */
+	lengthwise?:boolean;
+	/**
+	 * Adds {@link htmlRulerCss} to the document of the container, unless it was added already
+	 * @default true
+	 */
+	injectStyles?:boolean;
+}
+
+/** The elements of a tick mark */
+interface RulerNode{
+	tick:HTMLDivElement;
+	label:HTMLDivElement|null;
+}
+
+/**
+ * A ruler of div elements that is patched on every update instead of being rebuilt. The elements of
+ * a tick mark are keyed by its value, so they are reused for as long as the value stays in view,
+ * through pans and zooms. Looks are set by CSS classes, see {@link htmlRulerCss}:
+ * the container gets nl-ruler and nl-ruler-horizontal or nl-ruler-vertical, tick marks get nl-tick
+ * and nl-tick-major for the tallest ones, and labels get nl-label.
+ */
+export class HtmlRuler{
+
+	readonly container:HTMLElement;
+	private readonly options:IHtmlRulerOptions;
+	private builder:ViewModelBuilder = null;
+	private nodes = new Map<number,RulerNode>();
+	private orientationClass:string = null;
+	private destroyed = false;
+
+	/**
+	 * @param container The element to render into, or a selector for it
+	 * @param options Orientation and styles
+	 */
+	constructor(container:HTMLElement|string,options:IHtmlRulerOptions = {}){
+		const element = typeof container == "string" ? document.querySelector(container) as HTMLElement : container;
+		if(element == null){
+			throw new Error(`No element matches ${container}`);
+		}
+		this.container = element;
+		this.options = options;
+		this.container.classList.add("nl-ruler");
+		if(options.injectStyles ?? true){
+			injectStyles(this.container.ownerDocument);
+		}
 	}
 
-	const numberLineViewModel = numberLine.buildViewModel(length);
-	for(let i =0;i<numberLineViewModel.tickMarks.length;i++){
-		const tickMark = numberLineViewModel.tickMarks[i];
-		const tickMarkElement = createTickMark(tickMark,lengthwise,numberLine,true);
-		div.append(tickMarkElement);
-		if(tickMark.label!=null){
-			const label = createLabel(tickMark);
-			div.append(label);
+	/**
+	 * Renders the current state of a number line, reusing the elements of the tick marks still in view
+	 * and removing the ones that went out of it
+	 * @param numberLine The number line to render, usually the same one on every update
+	 * @returns The view model that was rendered
+	 */
+	update(numberLine:NumberLine):NumberLineViewModel{
+		if(this.destroyed){
+			throw new Error("The ruler was destroyed");
+		}
+		if(this.builder == null || this.builder.numberLine != numberLine){
+			this.builder = new ViewModelBuilder(numberLine);
+		}
+		const lengthwise = this.options.lengthwise ?? numberLine.orientation != "vertical";
+		this.setOrientationClass(lengthwise ? "nl-ruler-horizontal" : "nl-ruler-vertical");
 
+		const size = this.container.getBoundingClientRect();
+		const viewModel = this.builder.build(lengthwise ? size.width : size.height);
+		const previous = this.nodes;
+		this.nodes = new Map();
+		for(const tickMark of viewModel.tickMarks){
+			let node = previous.get(tickMark.value);
+			if(node == undefined){
+				node = {tick:this.createElement("nl-tick"),label:null};
+			}
+			previous.delete(tickMark.value);
+			this.nodes.set(tickMark.value,node);
+			this.updateNode(node,tickMark,lengthwise,numberLine.biggestTickPatternValue);
+		}
+		for(const node of previous.values()){
+			removeNode(node);
 		}
+		return viewModel;
+	}
+
+	/** Removes every element and class the ruler added to the container. The ruler can't be updated afterwards. */
+	destroy(){
+		for(const node of this.nodes.values()){
+			removeNode(node);
+		}
+		this.nodes.clear();
+		this.builder = null;
+		this.container.classList.remove("nl-ruler");
+		this.setOrientationClass(null);
+		this.destroyed = true;
 	}
-	return div;
-}
 
-function createTickMark(tickMark: TickMarkViewModel,lengthwise:boolean,numberLine:NumberLine,stickToOpposite=false):HTMLDivElement {
-	const tickMarkElement = document.createElement("div");
-	tickMarkElement.style.opacity = `${tickMark.height}`;
-	tickMarkElement.style.position = `absolute`;
-	tickMarkElement.style.background = 'black';
-	if(lengthwise){
-		tickMarkElement.style.left = `${tickMark.position}px`;
-		tickMarkElement.style.width = `1px`;
-		tickMarkElement.style.height = `${(tickMark.height/numberLine.biggestTickPatternValue)*100}%`;
-		if(stickToOpposite){
-			tickMarkElement.style.bottom = `0px`;
+	/** The orientation the ruler was created with, undefined if it follows the number line */
+	get lengthwise():boolean|undefined{
+		return this.options.lengthwise;
+	}
+
+	/** Number of tick marks currently rendered */
+	get tickCount():number{
+		return this.nodes.size;
+	}
+
+	private updateNode(node:RulerNode,tickMark:TickMarkViewModel,lengthwise:boolean,biggestTickPatternValue:number){
+		const tick = node.tick;
+		const size = `${(tickMark.height/biggestTickPatternValue)*100}%`;
+		tick.classList.toggle("nl-tick-major",tickMark.height == biggestTickPatternValue);
+		if(lengthwise){
+			tick.style.left = `${tickMark.position}px`;
+			tick.style.height = size;
+			tick.style.top = tick.style.width = "";
 		}else{
-			tickMarkElement.style.top = `0px`;
+			tick.style.top = `${tickMark.position}px`;
+			tick.style.width = size;
+			tick.style.left = tick.style.height = "";
+		}
+
+		if(tickMark.label == null){
+			node.label?.remove();
+			node.label = null;
+			return;
+		}
+		if(node.label == null){
+			node.label = this.createElement("nl-label");
+		}
+		const label = node.label;
+		if(label.textContent != tickMark.label){
+			label.textContent = tickMark.label;
 		}
-	}else{
-		tickMarkElement.style.top = `${tickMark.position}px`;
-		tickMarkElement.style.height = `1px`;
-		tickMarkElement.style.width = `${(tickMark.height/numberLine.biggestTickPatternValue)*100}%`;
-		if(stickToOpposite){
-			tickMarkElement.style.right = `0px`;
+		if(lengthwise){
+			label.style.left = `${tickMark.position}px`;
+			label.style.top = "";
 		}else{
-			tickMarkElement.style.left = `0px`;
+			label.style.top = `${tickMark.position}px`;
+			label.style.left = "";
+		}
+	}
+
+	private createElement(className:string):HTMLDivElement{
+		const element = this.container.ownerDocument.createElement("div");
+		element.className = className;
+		this.container.append(element);
+		return element;
+	}
+
+	private setOrientationClass(className:string|null){
+		if(this.orientationClass == className){
+			return;
 		}
+		if(this.orientationClass != null){
+			this.container.classList.remove(this.orientationClass);
+		}
+		if(className != null){
+			this.container.classList.add(className);
+		}
+		this.orientationClass = className;
+	}
+}
+
+function removeNode(node:RulerNode){
+	node.tick.remove();
+	node.label?.remove();
+}
+
+function injectStyles(document:Document){
+	if(document.getElementById(STYLE_ID) != null){
+		return;
 	}
-	return tickMarkElement;
+	const style = document.createElement("style");
+	style.id = STYLE_ID;
+	style.textContent = htmlRulerCss;
+	document.head.append(style);
 }
 
-function createLabel(tickMark: TickMarkViewModel):HTMLDivElement {
-	const label = document.createElement("div");
-	label.style.opacity = `${tickMark.height}`;
-	label.style.position = `absolute`;
-	label.style.color = 'black';
-	label.style.left = `${tickMark.position}px`;
-	label.innerHTML = tickMark.label;
-	label.style.top = `100%`;
-	label.style.userSelect = 'none';
-	label.style.transform = 'translate(-50%,0%)';
-	return label;
-}
\ No newline at end of file
+const rulers = new WeakMap<HTMLElement,HtmlRuler>();
+
+/**
+ * Renders a number line into an element, updating the ruler rendered into it by earlier calls
+ * instead of appending another one. See {@link HtmlRuler} for more control.
+ * @param numberLine The number line to render
+ * @param container The element to render into, or a selector for it
+ * @param lengthwise True to lay the ruler out horizontally
+ * @returns The container
+ */
+export function render(numberLine:NumberLine,container:HTMLElement|string,lengthwise = numberLine.orientation!="vertical"):HTMLElement{
+	const element = typeof container == "string" ? document.querySelector(container) as HTMLElement : container;
+	let ruler = rulers.get(element);
+	if(ruler == undefined || ruler.lengthwise != lengthwise){
+		ruler?.destroy();
+		ruler = new HtmlRuler(container,{lengthwise:lengthwise});
+		rulers.set(element,ruler);
+	}
+	ruler.update(numberLine);
+	return element;
+}
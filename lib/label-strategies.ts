@@ -0,0 +1,286 @@
+import { ITickMarkLabelStrategy } from "./number-line";
+
+/**
+ * Creates a label strategy that labels every tick mark by formatting its value
+ * @param format Formats a value into a label
+ * @returns The label strategy
+ */
+export function formatted(format: (value: number) => string): ITickMarkLabelStrategy {
+	return {
+		labelFor: (value) => format(value)
+	};
+}
+
+/**
+ * Labels values with a fixed number of decimals, like 1.50
+ * @param digits Number of digits after the decimal point
+ */
+export function fixedDecimals(digits = 0): ITickMarkLabelStrategy {
+	return formatted(value => fixed(value, digits));
+}
+
+const SI_PREFIXES = ["q", "r", "y", "z", "a", "f", "p", "n", "µ", "m", "", "k", "M", "G", "T", "P", "E", "Z", "Y", "R", "Q"];
+/** Index of the empty prefix within {@link SI_PREFIXES} */
+const SI_PREFIX_OFFSET = 10;
+
+/**
+ * Labels values with SI prefixes, like 1.5k, 20M or 3µ
+ * @param digits Maximum number of digits after the decimal point, trailing zeros are removed
+ */
+export function siPrefix(digits = 2): ITickMarkLabelStrategy {
+	const notation = engineering(digits);
+	return {
+		labelFor: (...args) => {
+			const [mantissa, exponent] = engineeringParts(args[0], digits);
+			const prefix = SI_PREFIXES[exponent / 3 + SI_PREFIX_OFFSET];
+			// beyond the biggest and the smallest prefixes
+			return prefix == undefined ? notation.labelFor(...args) : `${trimmed(mantissa, digits)}${prefix}`;
+		}
+	};
+}
+
+/**
+ * Labels values in scientific notation, like 1.5×10³
+ * @param digits Maximum number of digits after the decimal point of the mantissa
+ */
+export function scientific(digits = 2): ITickMarkLabelStrategy {
+	return formatted(value => {
+		if(value == 0){
+			return "0";
+		}
+		const [mantissa, exponent] = exponentialParts(value, digits);
+		return exponent == 0 ? trimmed(mantissa, digits) : `${trimmed(mantissa, digits)}×10${superscript(exponent)}`;
+	});
+}
+
+/**
+ * Labels values in engineering notation, where exponents are multiples of 3, like 150×10³
+ * @param digits Maximum number of digits after the decimal point of the mantissa
+ */
+export function engineering(digits = 2): ITickMarkLabelStrategy {
+	return formatted(value => {
+		const [mantissa, exponent] = engineeringParts(value, digits);
+		return exponent == 0 ? trimmed(mantissa, digits) : `${trimmed(mantissa, digits)}×10${superscript(exponent)}`;
+	});
+}
+
+/**
+ * Labels fractions as percentages, like 25% for 0.25
+ * @param digits Maximum number of digits after the decimal point
+ */
+export function percent(digits = 0): ITickMarkLabelStrategy {
+	return formatted(value => `${trimmed(value * 100, digits)}%`);
+}
+
+const VULGAR_FRACTIONS: { [fraction: string]: string } = {
+	"1/2": "½", "1/3": "⅓", "2/3": "⅔", "1/4": "¼", "3/4": "¾",
+	"1/5": "⅕", "2/5": "⅖", "3/5": "⅗", "4/5": "⅘", "1/6": "⅙", "5/6": "⅚",
+	"1/8": "⅛", "3/8": "⅜", "5/8": "⅝", "7/8": "⅞"
+};
+
+/**
+ * Labels values as mixed fractions, like 1½ or ¾. Fractions without a single character
+ * are written as 5/16, values that aren't fractions of the denominators get 2 decimals.
+ * @param denominators The denominators to try, in order of preference
+ */
+export function fraction(denominators = [2, 3, 4, 5, 6, 8]): ITickMarkLabelStrategy {
+	return formatted(value => {
+		const sign = value < 0 ? "-" : "";
+		const abs = Math.abs(value);
+		const whole = Math.floor(abs + FRACTION_TOLERANCE);
+		const remainder = abs - whole;
+		if(remainder < FRACTION_TOLERANCE){
+			return whole == 0 ? "0" : `${sign}${whole}`;
+		}
+		for(const denominator of denominators){
+			const numerator = Math.round(remainder * denominator);
+			if(numerator > 0 && numerator < denominator && Math.abs(remainder * denominator - numerator) < FRACTION_TOLERANCE * denominator){
+				const divisor = greatestCommonDivisor(numerator, denominator);
+				const key = `${numerator / divisor}/${denominator / divisor}`;
+				return `${sign}${whole == 0 ? "" : whole}${VULGAR_FRACTIONS[key] ?? (whole == 0 ? key : ` ${key}`)}`;
+			}
+		}
+		return fixed(value, 2);
+	});
+}
+
+/** Formats of {@link duration} */
+export type DurationFormat = "mm:ss" | "hh:mm" | "hh:mm:ss";
+
+/**
+ * Labels values in seconds as durations, like 01:30 for 90 seconds in mm:ss.
+ * The leading field isn't limited, so 2 hours is 120:00 in mm:ss.
+ * @param format The fields of the label
+ */
+export function duration(format: DurationFormat = "mm:ss"): ITickMarkLabelStrategy {
+	return formatted(value => {
+		const sign = value < 0 ? "-" : "";
+		const seconds = Math.round(Math.abs(value));
+		let fields: number[];
+		switch(format){
+			case "mm:ss":
+				fields = [Math.floor(seconds / 60), seconds % 60];
+				break;
+			case "hh:mm":
+				fields = [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60];
+				break;
+			case "hh:mm:ss":
+				fields = [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60];
+				break;
+		}
+		return sign + fields.map(field => field.toString().padStart(2, "0")).join(":");
+	});
+}
+
+export interface IDateLabelOptions {
+	/** Adds the time(hh:mm) after the date */
+	time?: boolean;
+	/**
+	 * Offset of the time zone from UTC in minutes, like 330 for UTC+5:30
+	 * @default 0
+	 */
+	timeZoneOffset?: number;
+}
+
+/**
+ * Labels values in milliseconds since the unix epoch as dates, like 2024-03-01
+ * @param options Whether to add the time and in which time zone
+ */
+export function date(options: IDateLabelOptions = {}): ITickMarkLabelStrategy {
+	const offset = (options.timeZoneOffset ?? 0) * 60000;
+	return formatted(value => {
+		const shifted = new Date(value + offset);
+		const day = `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+		return options.time ? `${day} ${pad(shifted.getUTCHours())}:${pad(shifted.getUTCMinutes())}` : day;
+	});
+}
+
+/**
+ * Labels values with Chinese large number units(万, 亿, 万亿, 亿亿/京), like 1.5 万
+ * @param digits Maximum number of digits after the decimal point
+ */
+export function chineseUnits(digits = 2): ITickMarkLabelStrategy {
+	return formatted(value => formatChineseUnits(BigInt(Math.round(value * Math.pow(10, digits))), digits));
+}
+
+const CHINESE_UNITS: [bigint, string][] = [
+	[10000000000000000n, "亿亿/京"],
+	[1000000000000n, "万亿"],
+	[100000000n, "亿"],
+	[10000n, "万"]
+];
+
+/**
+ * Formats an integer with the biggest Chinese unit it reaches, like 3 亿 for 300000000
+ * @param value The value, scaled by 10^digits when there are decimals
+ * @param digits Number of decimal digits in the value. Decimals below the unit are truncated
+ * and trailing zeros are removed, so without digits 15000 is 1 万.
+ * @returns The formatted value
+ */
+export function formatChineseUnits(value: bigint, digits = 0): string {
+	const negative = value < 0n;
+	const abs = negative ? -value : value;
+	const scale = 10n ** BigInt(digits);
+	let core: string;
+	if(abs == 0n){
+		core = "0";
+	}
+	else{
+		const unit = CHINESE_UNITS.find(([size]) => abs >= size * scale);
+		const [size, name] = unit ?? [1n, ""];
+		// keep the requested decimals of the count of units
+		const count = abs / size;
+		const whole = (count / scale).toString();
+		const decimals = digits > 0 ? (count % scale).toString().padStart(digits, "0").replace(/0+$/, "") : "";
+		const number = decimals.length > 0 ? `${whole}.${decimals}` : whole;
+		core = name.length > 0 ? `${number} ${name}` : number;
+	}
+	return negative ? `-${core}` : core;
+}
+
+/**
+ * Adds a prefix to the labels of a strategy, like a currency symbol
+ * @param strategy The strategy creating the labels
+ * @param prefix Text before the label
+ */
+export function withPrefix(strategy: ITickMarkLabelStrategy, prefix: string): ITickMarkLabelStrategy {
+	return {
+		labelFor: (...args) => {
+			const label = strategy.labelFor(...args);
+			return label == null ? null : prefix + label;
+		}
+	};
+}
+
+/**
+ * Adds a suffix to the labels of a strategy, like a unit
+ * @param strategy The strategy creating the labels
+ * @param suffix Text after the label
+ */
+export function withSuffix(strategy: ITickMarkLabelStrategy, suffix: string): ITickMarkLabelStrategy {
+	return {
+		labelFor: (...args) => {
+			const label = strategy.labelFor(...args);
+			return label == null ? null : label + suffix;
+		}
+	};
+}
+
+/**
+ * Only labels the tick marks of the most important level, like the start of every unit
+ * with the default levels
+ * @param strategy The strategy creating the labels
+ */
+export function majorTicksOnly(strategy: ITickMarkLabelStrategy): ITickMarkLabelStrategy {
+	return {
+		labelFor: (value, index, position, numberLine, tickMark) => {
+			const major = tickMark != undefined ? tickMark.levelIndex == 0 : index == 0;
+			return major ? strategy.labelFor(value, index, position, numberLine, tickMark) : null;
+		}
+	};
+}
+
+/** Relative tolerance for recognizing fractions in floating point values */
+const FRACTION_TOLERANCE = 1e-9;
+
+function fixed(value: number, digits: number): string {
+	const label = value.toFixed(digits);
+	// avoid labels like -0.00 for values that are rounded to 0
+	return Number(label) == 0 ? label.replace("-", "") : label;
+}
+
+function trimmed(value: number, digits: number): string {
+	const label = fixed(value, digits);
+	return label.includes(".") ? label.replace(/\.?0+$/, "") : label;
+}
+
+/** Splits a value into a mantissa in [1,10) and its exponent, after rounding to the digits */
+function exponentialParts(value: number, digits: number): [number, number] {
+	const [mantissa, exponent] = value.toExponential(digits).split("e");
+	return [Number(mantissa), Number(exponent)];
+}
+
+/** Splits a value into a mantissa in [1,1000) and an exponent that is a multiple of 3 */
+function engineeringParts(value: number, digits: number): [number, number] {
+	if(value == 0){
+		return [0, 0];
+	}
+	const [mantissa, exponent] = exponentialParts(value, digits);
+	const engineeringExponent = Math.floor(exponent / 3) * 3;
+	return [mantissa * Math.pow(10, exponent - engineeringExponent), engineeringExponent];
+}
+
+const SUPERSCRIPT_DIGITS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+function superscript(exponent: number): string {
+	const digits = Math.abs(exponent).toString().split("").map(digit => SUPERSCRIPT_DIGITS[Number(digit)]).join("");
+	return exponent < 0 ? `⁻${digits}` : digits;
+}
+
+function pad(value: number): string {
+	return value.toString().padStart(2, "0");
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+	return b == 0 ? a : greatestCommonDivisor(b, a % b);
+}
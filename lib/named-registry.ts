@@ -0,0 +1,60 @@
+/**
+ * Maps names to objects that can't be serialized themselves(like strategies),
+ * so that serialized state can refer to them by name.
+ */
+export class NamedRegistry<T> {
+
+	private items = new Map<string, T>();
+
+	/**
+	 * @param kind What is registered, used in error messages
+	 */
+	constructor(private kind: string) {
+	}
+
+	/**
+	 * Registers an item under a name, replacing any item registered under the same name
+	 * @param name The name to refer to the item with
+	 * @param item The item
+	 */
+	register(name: string, item: T) {
+		if(name.length==0){
+			throw new Error(`The name of a ${this.kind} cannot be empty`);
+		}
+		this.items.set(name, item);
+	}
+
+	/**
+	 * Removes the item registered under a name
+	 * @param name The name of the item
+	 */
+	unregister(name: string) {
+		this.items.delete(name);
+	}
+
+	/**
+	 * Finds the item registered under a name
+	 * @param name The name of the item
+	 * @returns The registered item
+	 */
+	get(name: string): T {
+		if(!this.items.has(name)){
+			throw new Error(`Unknown ${this.kind}: ${name}`);
+		}
+		return this.items.get(name);
+	}
+
+	/**
+	 * Finds the name an item is registered under
+	 * @param item The registered item
+	 * @returns The name of the item, null if it isn't registered
+	 */
+	nameOf(item: T): string | null {
+		for(const [name, registered] of this.items){
+			if(registered===item){
+				return name;
+			}
+		}
+		return null;
+	}
+}
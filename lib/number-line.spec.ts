@@ -1,4 +1,16 @@
-import { INumberLineOptions, ITickMarkLabelStrategy, NumberLine, rangeMapper, sawtooth, staircase, divisorBetween, nextDivisibleValue, clamp } from "./number-line";
+import { INumberLineOptions, ITickMarkLabelStrategy, NumberLine, rangeMapper, sawtooth, staircase, divisorBetween, nextDivisibleValue, clamp, tickValueAt, decimalPlaces, NiceZoomStrategy, NumberLineChangeEvent, NumberLineJSON, IZoomStrategy, StaircaseZoomStrategy, NumberLineViewModel } from "./number-line";
+import { bigIntAdapter, decimalAdapter } from "./numeric-adapters";
+import { ManualClock, linear } from "./animation";
+import { PanZoomController } from "./pan-zoom-controller";
+import { NumberPlane } from "./number-plane";
+import { ViewModelBuilder } from "./view-model-builder";
+import { CanvasRenderer, crispPosition } from "./canvas-renderer";
+import { renderSvg, renderSvgInto } from "./svg-renderer";
+import { HtmlRuler, render } from "./html-renderer";
+import { renderAscii } from "./ascii-renderer";
+import { timeLabels, timeTicks, timeIntervalFor, formatTime } from "./time-scale";
+import { fixedDecimals, siPrefix, scientific, engineering, percent, fraction, duration, date, chineseUnits, formatChineseUnits, withPrefix, withSuffix, majorTicksOnly } from "./label-strategies";
+import * as entryPoint from "./number-line";
 
 
 describe("Utility",()=>{
@@ -65,6 +77,23 @@ describe("Utility",()=>{
 		expect(clamp(-1,0,10)).toBe(0);
 		expect(clamp(-5,0,10)).toBe(0);
 	})
+
+	it("should count the decimal places of a number",()=>{
+		expect(decimalPlaces(1)).toBe(0);
+		expect(decimalPlaces(1500)).toBe(0);
+		expect(decimalPlaces(0.1)).toBe(1);
+		expect(decimalPlaces(-2.25)).toBe(2);
+		expect(decimalPlaces(1e-7)).toBe(7);
+		expect(decimalPlaces(1.5e-7)).toBe(8);
+	})
+
+	it("should compute tick values without floating point drift",()=>{
+		expect(tickValueAt(3,1,10)).toBe(0.3);
+		expect(tickValueAt(3,0.1,1)).toBe(0.3);
+		expect(tickValueAt(-7,0.1,10)).toBe(-0.07);
+		expect(tickValueAt(12,84,10)).toBe(100.8);
+		expect(tickValueAt(5,1e15,10)).toBe(5e14);
+	})
 })
 
 describe("Number Line",()=>{
@@ -96,6 +125,20 @@ describe("Number Line",()=>{
 		expect(numberLine.unitValue).toBe(84);
 	})
 
+	it("should keep unit values of fractional zoom factors free of floating point drift",()=>{
+		const numberLine = new NumberLine({...clone(defaultOptions),zoomFactor:0.1,labelStrategy:{labelFor:(value)=>value.toString()}});
+		numberLine.zoomTo(20);
+		expect(numberLine.unitValue).toBe(0.3);
+		expect(numberLine.buildViewModel(100).tickMarks.slice(1,4).map(tickMark=>tickMark.label)).toEqual(["0.03","0.06","0.09"]);
+		numberLine.zoomTo(60);
+		expect(numberLine.unitValue).toBe(0.7);
+		expect(numberLine.buildViewModel(100).tickMarks[3].label).toBe("0.21");
+		const nice = new NumberLine({...clone(defaultOptions),zoomFactor:0.1,zoomStrategy:new NiceZoomStrategy()});
+		nice.zoomTo(-20);
+		expect(nice.unitValue).toBe(0.02);
+		expect(tickValueAt(1,nice.unitValue,nice.tickCount)).toBe(0.002);
+	})
+
 
 	it("should give correct values at specified points",()=>{
 		const numberLine = new NumberLine(defaultOptions);
@@ -156,6 +199,16 @@ describe("Number Line",()=>{
 		expect(numberLine.positionOf(100)).toBe(10000);
 	})
 
+	it('should subtract the displacement from the position of a value, as the inverse of valueAt',()=>{
+		const numberLine = new NumberLine({...clone(defaultOptions),scale:"linear",initialDisplacement:250});
+		expect(numberLine.positionOf(5)).toBe(250);
+		expect(numberLine.positionOf(0)).toBe(-250);
+		expect(numberLine.positionOf(numberLine.valueAt(120))).toBeCloseTo(120,10);
+		numberLine.panTo(-300);
+		expect(numberLine.positionOf(0)).toBe(300);
+		expect(numberLine.valueAt(numberLine.positionOf(7))).toBeCloseTo(7,10);
+	})
+
 	it('should build a view model for the default case',()=>{
 		const numberLine = new NumberLine(defaultOptions);
 		const viewModel = numberLine.buildViewModel(10000);
@@ -469,6 +522,31 @@ describe("Number Line",()=>{
 		
 	})
 
+	it('should build a view model with exact decimal tick values',()=>{
+		const labels:string[] = [];
+		const clonedOptions = clone(defaultOptions);
+		clonedOptions.zoomFactor = 0.1;
+		clonedOptions.labelStrategy = {
+			labelFor:(value)=>{
+				labels.push(value.toString());
+				return null;
+			}
+		}
+		const numberLine = new NumberLine(clonedOptions);
+		numberLine.panTo(-5000);
+		const viewModel = numberLine.buildViewModel(10000);
+		expect(viewModel.tickMarks[0].tickIndex).toBe(-500);
+		expect(viewModel.tickMarks[0].value).toBe(-5);
+		expect(viewModel.tickMarks[530].tickIndex).toBe(30);
+		expect(viewModel.tickMarks[530].value).toBe(0.3);
+		expect(viewModel.tickMarks[500].value).toBe(0);
+		for(let i=0;i<viewModel.tickMarks.length;i++){
+			expect(viewModel.tickMarks[i].tickIndex).toBe(i-500);
+			// every value should be the shortest decimal representation of its tick
+			expect(labels[i]).toBe(((i-500)/100).toString());
+		}
+	})
+
 	it('should range fit within a given length',()=>{
 		const clonedOptions = clone(defaultOptions);
 		const numberLine = new NumberLine(clonedOptions);
@@ -507,6 +585,52 @@ describe("Number Line",()=>{
 
 	})
 
+	it('should fit a range exactly by choosing the unit length within breakpoints',()=>{
+		const numberLine = new NumberLine(clone(defaultOptions));
+		const result = numberLine.fitTo(5,28,1000);
+		expect(result.fitted).toBe(true);
+		expect(result.residual).toBeLessThan(1e-6);
+		expect(numberLine.unitValue).toBe(3);
+		expect(numberLine.unitLength).toBeCloseTo(3000/23,8);
+		expect(numberLine.valueAt(0)).toBeCloseTo(5,10);
+		expect(numberLine.valueAt(1000)).toBeCloseTo(28,10);
+		expect(numberLine.isRangeFittable(5,28,1000,3000/23)).toBe(true);
+	})
+
+	it('should report the residual of a range that cannot be fit exactly',()=>{
+		const numberLine = new NumberLine(clone(defaultOptions));
+		const result = numberLine.fit(0,4.2,1000);
+		expect(result.fitted).toBe(false);
+		// a unit value of 1 just below 150 units of length can only make the range 630 long
+		expect(result.residual).toBeCloseTo(370,5);
+		expect(result.residual).toBeGreaterThan(370);
+		expect(numberLine.fit(0,4.2,1000,{tolerance:600}).fitted).toBe(true);
+		// nothing was applied
+		expect(numberLine.magnification).toBe(0);
+	})
+
+	it('should fit a range within padding',()=>{
+		const numberLine = new NumberLine(clone(defaultOptions));
+		const result = numberLine.fitTo(0,6,1000,{padding:[50,150]});
+		expect(result.fitted).toBe(true);
+		expect(numberLine.valueAt(50)).toBeCloseTo(0,10);
+		expect(numberLine.valueAt(850)).toBeCloseTo(6,10);
+		numberLine.fitTo(-10,10,1000,{padding:100});
+		expect(numberLine.valueAt(100)).toBeCloseTo(-10,10);
+		expect(numberLine.valueAt(900)).toBeCloseTo(10,10);
+		expect(()=>numberLine.fit(0,10,100,{padding:50})).toThrow();
+	})
+
+	it('should reject empty ranges without breaking the number line',()=>{
+		const numberLine = new NumberLine({...clone(defaultOptions),zoomStrategy:new NiceZoomStrategy()});
+		numberLine.panTo(30);
+		expect(()=>numberLine.fitTo(5,5,100)).toThrow("The range to fit must not be empty");
+		expect(()=>new NumberLine(clone(defaultOptions)).fit(-2,-2,100)).toThrow("The range to fit must not be empty");
+		expect(numberLine.magnification).toBe(0);
+		expect(numberLine.displacement).toBe(30);
+		expect(Number.isFinite(numberLine.valueAt(0))).toBe(true);
+	})
+
 	it('should check if range is fittable within a given length',()=>{
 		const clonedOptions = clone(defaultOptions);
 		const numberLine = new NumberLine(clonedOptions);
@@ -517,12 +641,1753 @@ describe("Number Line",()=>{
 
 })
 
+describe("Nice zoom strategy",()=>{
+
+	const niceOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:250,
+		labelStrategy:null,
+		zoomStrategy:new NiceZoomStrategy()
+	}
+
+	it("should follow a 1-2-5 sequence of unit values",()=>{
+		const numberLine = new NumberLine({...niceOptions});
+		const unitValues:number[] = [];
+		for(let magnification=-60;magnification<=60;magnification+=10){
+			numberLine.zoomTo(magnification);
+			unitValues.push(numberLine.unitValue);
+		}
+		expect(unitValues).toEqual([0.01,0.02,0.05,0.1,0.2,0.5,1,2,5,10,20,50,100]);
+		numberLine.zoomTo(0);
+		expect(numberLine.unitLength).toBe(250);
+		numberLine.zoomTo(5);
+		expect(numberLine.unitLength).toBeCloseTo(250/Math.SQRT2,10);
+	})
+
+	it("should support custom steps",()=>{
+		const numberLine = new NumberLine({...niceOptions,zoomStrategy:new NiceZoomStrategy([1,2.5,5])});
+		numberLine.zoomTo(10);
+		expect(numberLine.unitValue).toBe(2.5);
+		expect(()=>new NiceZoomStrategy([2,1])).toThrow();
+		expect(()=>new NiceZoomStrategy([1,10])).toThrow();
+	})
+
+	it("should change the scale continuously across zoom periods",()=>{
+		const numberLine = new NumberLine({...niceOptions});
+		const scaleAt = (magnification:number)=>{
+			numberLine.zoomTo(magnification);
+			return numberLine.unitLength/numberLine.unitValue;
+		}
+		for(let magnification=-30;magnification<=30;magnification+=10){
+			expect(scaleAt(magnification - 1e-9)).toBeCloseTo(scaleAt(magnification),5);
+			expect(scaleAt(magnification + 3)).toBeLessThan(scaleAt(magnification));
+		}
+	})
+
+	it("should keep the hinge value fixed while zooming around it",()=>{
+		const numberLine = new NumberLine({...niceOptions});
+		numberLine.zoomAround(300,17);
+		expect(numberLine.valueAt(300)).toBeCloseTo(1.2,10);
+		numberLine.zoomAround(300,-31);
+		expect(numberLine.valueAt(300)).toBeCloseTo(1.2,10);
+	})
+
+	it("should fit any range exactly",()=>{
+		const numberLine = new NumberLine({...niceOptions});
+		const ranges = [[5,25],[0,1],[-3,17],[0.001,0.0027],[1200,98000]];
+		for(const [start,end] of ranges){
+			const [magnification,displacement] = numberLine.rangeFit(start,end,1000);
+			numberLine.zoomTo(magnification);
+			numberLine.panTo(displacement);
+			expect(numberLine.valueAt(0)).toBeCloseTo(start,8);
+			expect(numberLine.valueAt(1000)/end).toBeCloseTo(1,10);
+			expect(numberLine.isRangeFittable(start,end,1000)).toBe(true);
+		}
+	})
+
+	it("should reject measures it can't fit",()=>{
+		const numberLine = new NumberLine({...niceOptions});
+		const strategy = new NiceZoomStrategy();
+		expect(()=>strategy.magnificationFor(0,1000,numberLine)).toThrow("The measure and the length to fit must be positive");
+		expect(()=>strategy.magnificationFor(-5,1000,numberLine)).toThrow();
+		expect(()=>strategy.magnificationFor(5,0,numberLine)).toThrow();
+		expect(numberLine.isRangeFittable(5,5,1000)).toBe(false);
+		expect(numberLine.magnification).toBe(0);
+	})
+})
+
+describe("Logarithmic Number Line",()=>{
+
+	const labelStrategy:ITickMarkLabelStrategy={
+		labelFor:(value:number,index:number)=>{
+			return index==0 ? value.toString() : null;
+		}
+	}
+	const logOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:labelStrategy,
+		scale:"log"
+	}
+
+	it("should map decades to unit lengths",()=>{
+		const numberLine = new NumberLine(clone(logOptions));
+		expect(numberLine.positionOf(1)).toBe(0);
+		expect(numberLine.positionOf(10)).toBe(100);
+		expect(numberLine.positionOf(1000)).toBe(300);
+		expect(numberLine.positionOf(0.1)).toBe(-100);
+		expect(numberLine.valueAt(200)).toBe(100);
+		expect(numberLine.valueAt(-200)).toBeCloseTo(0.01,10);
+		expect(numberLine.measure(100)).toBe(10);
+		expect(numberLine.measure(300)).toBe(1000);
+	})
+
+	it("should support an arbitrary base",()=>{
+		const clonedOptions = clone(logOptions);
+		clonedOptions.logBase = 2;
+		const numberLine = new NumberLine(clonedOptions);
+		expect(numberLine.positionOf(8)).toBe(300);
+		expect(numberLine.valueAt(500)).toBe(32);
+		expect(()=>new NumberLine({...clone(logOptions),logBase:1})).toThrow();
+	})
+
+	it("should place decade and sub-decade tick marks",()=>{
+		const numberLine = new NumberLine(clone(logOptions));
+		const viewModel = numberLine.buildViewModel(200);
+		const values = viewModel.tickMarks.map(tickMark=>tickMark.value);
+		expect(values).toEqual([1,2,3,4,5,6,7,8,9,10,20,30,40,50,60,70,80,90,100]);
+		expect(viewModel.startingValue).toBe(1);
+		expect(viewModel.endingValue).toBe(100);
+		expect(viewModel.tickMarks[1].position).toBeCloseTo(Math.log10(2)*100,10);
+		expect(viewModel.tickMarks[0].height).toBe(3);
+		expect(viewModel.tickMarks[0].label).toBe("1");
+		expect(viewModel.tickMarks[4].height).toBe(2);
+		expect(viewModel.tickMarks[4].label).toBeNull();
+		expect(viewModel.tickMarks[9].height).toBe(3);
+		expect(viewModel.tickMarks[18].label).toBe("100");
+	})
+
+	it("should place sub-decade tick marks for fractional values",()=>{
+		const numberLine = new NumberLine(clone(logOptions));
+		numberLine.panTo(-200);
+		const viewModel = numberLine.buildViewModel(100);
+		const values = viewModel.tickMarks.map(tickMark=>tickMark.value);
+		expect(values).toEqual([0.01,0.02,0.03,0.04,0.05,0.06,0.07,0.08,0.09,0.1]);
+	})
+
+	it("should subdivide the multiples of a decade when zoomed in beyond them",()=>{
+		const numberLine = new NumberLine({...clone(logOptions),zoomFactor:0.01});
+		expect(numberLine.fitTo(2.1,2.64,1000).fitted).toBe(true);
+		const viewModel = numberLine.buildViewModel(1000);
+		const values = viewModel.tickMarks.map(tickMark=>tickMark.value);
+		expect(values.length).toBe(55);
+		expect(values.slice(0,6)).toEqual([2.1,2.11,2.12,2.13,2.14,2.15]);
+		expect(values[54]).toBe(2.64);
+		expect(viewModel.tickMarks.slice(0,6).map(tickMark=>tickMark.height)).toEqual([3,1,1,1,1,2]);
+		expect(viewModel.tickMarks.filter(tickMark=>tickMark.label!=null).map(tickMark=>tickMark.label)).toEqual(["2.1","2.2","2.3","2.4","2.5","2.6"]);
+		// tick marks stay at least about a tick gap apart
+		for(let i=1;i<viewModel.tickMarks.length;i++){
+			expect(viewModel.tickMarks[i].position - viewModel.tickMarks[i-1].position).toBeGreaterThan(viewModel.gap);
+		}
+
+		numberLine.fitTo(0.021,0.0264,1000);
+		const fractions = numberLine.buildViewModel(1000).tickMarks.map(tickMark=>tickMark.value);
+		expect(fractions.slice(0,3)).toEqual([0.021,0.0211,0.0212]);
+
+		const nice = new NumberLine({...clone(logOptions),zoomStrategy:new NiceZoomStrategy()});
+		nice.zoomTo(-60);
+		expect(nice.buildViewModel(1000).tickMarks.length).toBeGreaterThan(10);
+	})
+
+	it("should only place decade tick marks when a unit spans more than a decade",()=>{
+		const numberLine = new NumberLine(clone(logOptions));
+		numberLine.zoomTo(10);
+		expect(numberLine.unitValue).toBe(2);
+		const viewModel = numberLine.buildViewModel(300);
+		const values = viewModel.tickMarks.map(tickMark=>tickMark.value);
+		expect(values).toEqual([1,10,100,1000,10000,100000,1000000]);
+		expect(viewModel.tickMarks.map(tickMark=>tickMark.height)).toEqual([3,2,3,2,3,2,3]);
+	})
+
+	it("should keep the hinge value fixed while zooming around it",()=>{
+		const numberLine = new NumberLine(clone(logOptions));
+		numberLine.zoomAround(150,5);
+		expect(numberLine.valueAt(150)).toBeCloseTo(Math.pow(10,1.5),8);
+		numberLine.zoomAround(150,12);
+		expect(numberLine.valueAt(150)).toBeCloseTo(Math.pow(10,1.5),8);
+	})
+
+	it("should range fit by the exponents of the values",()=>{
+		const numberLine = new NumberLine(clone(logOptions));
+		const [magnification,displacement] = numberLine.rangeFit(10,1000,200);
+		numberLine.zoomTo(magnification);
+		numberLine.panTo(displacement);
+		expect(numberLine.valueAt(0)).toBe(10);
+		expect(numberLine.valueAt(200)).toBe(1000);
+		expect(numberLine.isRangeFittable(10,1000,200)).toBe(true);
+	})
+
+	it("should fit ranges that need a unit length beyond the upper breakpoint as closely as it can",()=>{
+		const numberLine = new NumberLine(clone(logOptions));
+		// 5 decades in 1000 would take 200 units of length per decade
+		const result = numberLine.fitTo(10,1e6,1000);
+		expect(result.fitted).toBe(false);
+		expect(result.residual).toBeCloseTo(250,5);
+		expect(numberLine.unitValue).toBe(1);
+		expect(numberLine.unitLength).toBeCloseTo(150,5);
+		// the range is still contained
+		expect(numberLine.valueAt(0)).toBeCloseTo(10,8);
+		expect(numberLine.valueAt(1000)).toBeGreaterThan(1e6);
+	})
+})
+
+describe("Exact values",()=>{
+
+	const exactOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:{
+			labelFor:(value,index,position,numberLine,tickMark)=>{
+				return index==0 ? numberLine.numericAdapter.toString(tickMark.exactValue) : null;
+			}
+		},
+		zoomFactor:10000,
+		numericAdapter:bigIntAdapter
+	}
+
+	it("should carry exact tick mark values beyond floating point precision",()=>{
+		const numberLine = new NumberLine({...exactOptions});
+		// 10^18 is 10^14 units of 100px away from the origin
+		numberLine.panTo(1e16);
+		const viewModel = numberLine.buildViewModel(1000);
+		expect(viewModel.startingExactValue).toBe(10n**18n);
+		expect(viewModel.endingExactValue).toBe(10n**18n + 100000n);
+		expect(viewModel.tickMarks.length).toBe(101);
+		for(let i=0;i<viewModel.tickMarks.length;i++){
+			expect(viewModel.tickMarks[i].exactValue).toBe(10n**18n + BigInt(i)*1000n);
+		}
+		expect(viewModel.tickMarks[10].label).toBe("1000000000000010000");
+		expect(viewModel.tickMarks[1].label).toBeNull();
+	})
+
+	it("should count tick marks exactly at 10^18 with small unit values",()=>{
+		const adapter = decimalAdapter(1);
+		const numberLine = new NumberLine({...exactOptions,zoomFactor:1,numericAdapter:adapter});
+		// 10^18 units of 100px, which is 10^19 tick counts from the origin
+		numberLine.panTo(1e20);
+		const viewModel = numberLine.buildViewModel(50);
+		expect(viewModel.tickMarks.map(tickMark=>adapter.toString(tickMark.exactValue as bigint))).toEqual(
+			["", ".1", ".2", ".3", ".4", ".5"].map(fraction=>`1000000000000000000${fraction}`)
+		);
+		expect(viewModel.tickMarks.map(tickMark=>tickMark.position)).toEqual([0,10,20,30,40,50]);
+		expect(viewModel.tickMarks.map(tickMark=>tickMark.height)).toEqual([3,1,1,1,1,2]);
+		expect(viewModel.tickMarks[0].label).toBe("1000000000000000000");
+		expect(adapter.toString(viewModel.endingExactValue as bigint)).toBe("1000000000000000000.5");
+		expect(adapter.toString(numberLine.exactValueAt(30) as bigint)).toBe("1000000000000000000.3");
+		expect(numberLine.positionOfExact(10n**19n + 3n)).toBe(30);
+
+		const bigIntNumberLine = new NumberLine({...exactOptions,zoomFactor:1});
+		bigIntNumberLine.panTo(1e20);
+		expect(bigIntNumberLine.buildViewModel(50).tickMarks.map(tickMark=>tickMark.position)).toEqual([0,10,20,30,40,50]);
+		expect(bigIntNumberLine.exactValueAt(-100)).toBe(10n**18n - 1n);
+	})
+
+	it("should convert between exact values and positions",()=>{
+		const numberLine = new NumberLine({...exactOptions});
+		numberLine.panTo(1e16);
+		expect(numberLine.exactValueAt(50)).toBe(10n**18n + 5000n);
+		expect(numberLine.positionOfExact(10n**18n + 5000n)).toBe(50);
+		expect(numberLine.positionOfExact(10n**18n - 10000n)).toBe(-100);
+	})
+
+	it("should carry exact decimal tick mark values",()=>{
+		const adapter = decimalAdapter(2);
+		const numberLine = new NumberLine({...exactOptions,zoomFactor:0.1,numericAdapter:adapter});
+		const viewModel = numberLine.buildViewModel(100);
+		expect(adapter.toString(viewModel.tickMarks[3].exactValue as bigint)).toBe("0.03");
+		expect(adapter.toString(viewModel.endingExactValue as bigint)).toBe("0.1");
+		expect(adapter.toString(adapter.fromNumber(-12.5))).toBe("-12.5");
+		expect(adapter.toNumber(adapter.fromNumber(-12.25))).toBe(-12.25);
+	})
+
+	it("should not allow exact values in a logarithmic scale",()=>{
+		expect(()=>new NumberLine({...exactOptions,scale:"log"})).toThrow();
+		expect(()=>new NumberLine({...exactOptions,numericAdapter:undefined}).exactValueAt(0)).toThrow();
+	})
+})
+
+describe("Constraints",()=>{
+
+	const constrainedOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:null,
+		viewportLength:600
+	}
+
+	it("should keep panning within the domain",()=>{
+		const numberLine = new NumberLine({...constrainedOptions,constraints:{minValue:0,maxValue:100}});
+		expect(numberLine.panTo(-50)).toBe(true);
+		expect(numberLine.valueAt(0)).toBeCloseTo(0,10);
+		expect(numberLine.panBy(10)).toBe(false);
+		expect(numberLine.panTo(1e6)).toBe(true);
+		expect(numberLine.valueAt(600)).toBeCloseTo(100,10);
+		// rubber banding can go beyond the bounds until the next constrained pan
+		expect(numberLine.panBy(100,false)).toBe(false);
+		expect(numberLine.valueAt(600)).toBeGreaterThan(100);
+		expect(numberLine.panBy(0)).toBe(true);
+		expect(numberLine.valueAt(600)).toBeCloseTo(100,10);
+	})
+
+	it("should center a domain smaller than the viewport",()=>{
+		const numberLine = new NumberLine({...constrainedOptions,constraints:{minValue:0,maxValue:1}});
+		numberLine.panTo(1000);
+		expect(numberLine.positionOf(0.5)).toBeCloseTo(300,10);
+	})
+
+	it("should clamp magnification",()=>{
+		const numberLine = new NumberLine({...constrainedOptions,constraints:{minMagnification:-5,maxMagnification:20}});
+		expect(numberLine.zoomTo(30)).toBe(true);
+		expect(numberLine.magnification).toBe(20);
+		expect(numberLine.zoomAround(300,-100)).toBe(true);
+		expect(numberLine.magnification).toBe(-5);
+		expect(numberLine.zoomTo(0)).toBe(false);
+		expect(()=>new NumberLine({...constrainedOptions,constraints:{minMagnification:1,maxMagnification:0}})).toThrow();
+		expect(()=>new NumberLine({...constrainedOptions,constraints:{minValue:1,maxValue:0}})).toThrow();
+	})
+
+	it("should keep the hinge value in place while zooming within bounds",()=>{
+		const numberLine = new NumberLine({...constrainedOptions,constraints:{minValue:-1000,maxValue:1000}});
+		numberLine.panTo(-300);
+		const value = numberLine.valueAt(200);
+		expect(numberLine.zoomAround(200,7)).toBe(false);
+		expect(numberLine.positionOf(value)).toBeCloseTo(200,10);
+	})
+
+	it("should keep a range visible",()=>{
+		const numberLine = new NumberLine({...constrainedOptions,zoomFactor:0.1,initialMagnification:90,constraints:{keepVisible:[1,3]}});
+		expect(numberLine.panTo(200)).toBe(true);
+		expect(numberLine.positionOf(1)).toBeCloseTo(0,10);
+		expect(numberLine.panTo(-1000)).toBe(true);
+		expect(numberLine.positionOf(3)).toBeCloseTo(600,10);
+		// zooming in so far that the range can't fit is refused
+		const magnification = numberLine.magnification;
+		expect(numberLine.zoomTo(0)).toBe(true);
+		expect(numberLine.magnification).toBe(magnification);
+	})
+
+	it("should clamp values to the domain",()=>{
+		const numberLine = new NumberLine({...constrainedOptions,constraints:{minValue:-10,maxValue:10}});
+		expect(numberLine.clampValue(20)).toBe(10);
+		expect(numberLine.clampValue(-20)).toBe(-10);
+		expect(numberLine.clampValue(5)).toBe(5);
+	})
+
+	it("should re-apply constraints when the viewport is resized",()=>{
+		const options:INumberLineOptions = {...constrainedOptions,constraints:{minValue:0,maxValue:10}};
+		const numberLine = new NumberLine(options);
+		numberLine.panTo(1e6);
+		numberLine.viewportLength = 900;
+		expect(numberLine.valueAt(900)).toBeCloseTo(10,10);
+		expect(numberLine.viewportLength).toBe(900);
+		// the options passed in are left as they were
+		expect(options.viewportLength).toBe(constrainedOptions.viewportLength);
+	})
+
+})
+
+describe("Change events",()=>{
+
+	const eventOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:null
+	}
+
+	it("should notify pans and zooms with snapshots",()=>{
+		const numberLine = new NumberLine({...eventOptions});
+		const events:NumberLineChangeEvent[] = [];
+		numberLine.subscribe(event=>events.push(event));
+		numberLine.panTo(50);
+		numberLine.zoomTo(15);
+		expect(events.map(event=>event.types)).toEqual([["pan"],["zoom"]]);
+		expect(events[0].before.displacement).toBe(0);
+		expect(events[0].after.displacement).toBe(50);
+		expect(events[1].after).toEqual(numberLine.snapshot());
+		expect(events[1].numberLine).toBe(numberLine);
+	})
+
+	it("should not notify when nothing changes",()=>{
+		const numberLine = new NumberLine({...eventOptions});
+		const listener = jest.fn();
+		numberLine.subscribe(listener);
+		numberLine.panTo(0);
+		numberLine.zoomTo(0);
+		expect(listener).not.toHaveBeenCalled();
+	})
+
+	it("should filter by type and unsubscribe",()=>{
+		const numberLine = new NumberLine({...eventOptions});
+		const zoomListener = jest.fn();
+		const listener = jest.fn();
+		const unsubscribe = numberLine.subscribe(zoomListener,["zoom"]);
+		numberLine.subscribe(listener);
+		numberLine.panBy(10);
+		expect(zoomListener).not.toHaveBeenCalled();
+		numberLine.zoomAround(100,5);
+		expect(zoomListener).toHaveBeenCalledTimes(1);
+		unsubscribe();
+		numberLine.zoomTo(0);
+		expect(zoomListener).toHaveBeenCalledTimes(1);
+		numberLine.unsubscribe(listener);
+		numberLine.panBy(10);
+		expect(listener).toHaveBeenCalledTimes(3);
+	})
+
+	it("should coalesce batched changes",()=>{
+		const numberLine = new NumberLine({...eventOptions,constraints:{minValue:0},viewportLength:500});
+		const events:NumberLineChangeEvent[] = [];
+		numberLine.subscribe(event=>events.push(event));
+		numberLine.batch(()=>{
+			numberLine.zoomTo(5);
+			numberLine.batch(()=>{
+				numberLine.panTo(-100);
+				numberLine.panBy(200);
+			});
+		});
+		numberLine.fitTo(0,10,500);
+		expect(events.length).toBe(2);
+		expect(events[0].types).toEqual(["pan","zoom"]);
+		expect(events[0].clamped).toBe(true);
+		expect(events[0].before.magnification).toBe(0);
+		expect(events[0].after.displacement).toBe(200);
+	})
+
+	it("should notify option updates",()=>{
+		const numberLine = new NumberLine({...eventOptions});
+		const events:NumberLineChangeEvent[] = [];
+		numberLine.subscribe(event=>events.push(event));
+		numberLine.panTo(-100);
+		const clamped = numberLine.updateOptions({constraints:{minValue:0}});
+		expect(clamped).toBe(true);
+		expect(events[1].types).toEqual(["pan","options"]);
+		expect(numberLine.displacement).toBe(0);
+		numberLine.viewportLength = 400;
+		expect(events[2].types).toEqual(["options"]);
+		expect(()=>numberLine.updateOptions({zoomFactor:-1})).toThrow();
+	})
+
+})
+
+describe("Serialization",()=>{
+
+	const serializedOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:null,
+		constraints:{minValue:-100,maxValue:100,keepVisible:[0,1]},
+		viewportLength:800
+	}
+
+	afterEach(()=>{
+		NumberLine.labelStrategies.unregister("integers");
+		NumberLine.numericAdapters.unregister("bigint");
+		NumberLine.zoomStrategies.unregister("custom");
+	})
+
+	it("should round trip the state and options",()=>{
+		const numberLine = new NumberLine({...serializedOptions,zoomStrategy:new NiceZoomStrategy([1,2.5,5]),scale:"linear"});
+		numberLine.zoomTo(17);
+		numberLine.panTo(-120);
+		const json = JSON.stringify(numberLine);
+		const restored = NumberLine.fromJSON(json);
+		expect(restored.toJSON()).toEqual(numberLine.toJSON());
+		expect(restored.magnification).toBe(17);
+		expect(restored.displacement).toBe(-120);
+		expect(restored.unitValue).toBe(numberLine.unitValue);
+		expect(restored.zoomStrategy).toBeInstanceOf(NiceZoomStrategy);
+		expect(restored.options.constraints).toEqual(serializedOptions.constraints);
+		expect(restored.options.constraints).not.toBe(numberLine.options.constraints);
+	})
+
+	it("should reference label strategies by registered name",()=>{
+		const labelStrategy:ITickMarkLabelStrategy={
+			labelFor:(value)=>value.toFixed(0)
+		}
+		const numberLine = new NumberLine({...serializedOptions,labelStrategy:labelStrategy});
+		expect(numberLine.toJSON().options.labelStrategy).toBeNull();
+		NumberLine.labelStrategies.register("integers",labelStrategy);
+		const json = numberLine.toJSON();
+		expect(json.options.labelStrategy).toBe("integers");
+		expect(NumberLine.fromJSON(json).options.labelStrategy).toBe(labelStrategy);
+		NumberLine.labelStrategies.unregister("integers");
+		expect(()=>NumberLine.fromJSON(json)).toThrow();
+		expect(NumberLine.fromJSON(json,{labelStrategy:labelStrategy}).options.labelStrategy).toBe(labelStrategy);
+	})
+
+	it("should reference numeric adapters and custom zoom strategies by registered name",()=>{
+		const numberLine = new NumberLine({...serializedOptions,numericAdapter:bigIntAdapter});
+		expect(numberLine.toJSON().options.numericAdapter).toBeNull();
+		expect(NumberLine.fromJSON(numberLine.toJSON(),{numericAdapter:bigIntAdapter}).numericAdapter).toBe(bigIntAdapter);
+		NumberLine.numericAdapters.register("bigint",bigIntAdapter);
+		expect(NumberLine.fromJSON(numberLine.toJSON()).numericAdapter).toBe(bigIntAdapter);
+		const zoomStrategy:IZoomStrategy={
+			unitLengthAt:()=>100,
+			unitValueAt:()=>1,
+			magnificationFor:()=>0
+		}
+		const custom = new NumberLine({...serializedOptions,zoomStrategy:zoomStrategy});
+		const json = custom.toJSON();
+		expect(json.options.zoomStrategy).toBeNull();
+		expect(NumberLine.fromJSON(json).zoomStrategy).toBeInstanceOf(StaircaseZoomStrategy);
+		expect(NumberLine.fromJSON(json,{zoomStrategy:zoomStrategy}).zoomStrategy).toBe(zoomStrategy);
+		NumberLine.zoomStrategies.register("custom",zoomStrategy);
+		expect(custom.toJSON().options.zoomStrategy).toEqual({type:"registered",name:"custom"});
+		expect(NumberLine.fromJSON(custom.toJSON()).zoomStrategy).toBe(zoomStrategy);
+	})
+
+	it("should reject unknown versions",()=>{
+		const json = {...new NumberLine({...serializedOptions}).toJSON(),version:2};
+		expect(()=>NumberLine.fromJSON(json as unknown as NumberLineJSON)).toThrow("Unsupported number line state version: 2");
+	})
+
+})
+
+describe("Animation",()=>{
+
+	const animatedOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:null
+	}
+
+	it("should step deterministically with the injected clock",async ()=>{
+		const numberLine = new NumberLine({...animatedOptions});
+		const clock = new ManualClock();
+		const animation = numberLine.animateTo({displacement:100},{duration:100,easing:linear,clock:clock});
+		expect(numberLine.displacement).toBe(0);
+		clock.advance(25);
+		expect(numberLine.displacement).toBeCloseTo(25,10);
+		clock.advance(50);
+		expect(numberLine.displacement).toBeCloseTo(75,10);
+		expect(animation.running).toBe(true);
+		clock.advance(50);
+		expect(numberLine.displacement).toBe(100);
+		expect(animation.running).toBe(false);
+		await expect(animation.finished).resolves.toBe(true);
+	})
+
+	it("should keep the hinge value in place",()=>{
+		const numberLine = new NumberLine({...animatedOptions});
+		numberLine.panTo(-200);
+		const clock = new ManualClock();
+		const hingeValue = numberLine.valueAt(300);
+		numberLine.animateTo({magnification:25},{duration:100,hinge:300,clock:clock});
+		for(let frame=0;frame<6;frame++){
+			clock.advance(20);
+			expect(numberLine.positionOf(hingeValue)).toBeCloseTo(300,8);
+		}
+		expect(numberLine.magnification).toBe(25);
+	})
+
+	it("should keep the value fixed between both ends",()=>{
+		const numberLine = new NumberLine({...animatedOptions});
+		const clock = new ManualClock();
+		const [magnification,displacement] = numberLine.rangeFit(10,20,500);
+		// the value at the same position before and after the animation
+		const startScale = numberLine.unitLength/numberLine.unitValue;
+		const endNumberLine = new NumberLine({...animatedOptions,initialMagnification:magnification,initialDisplacement:displacement});
+		const endScale = endNumberLine.unitLength/endNumberLine.unitValue;
+		const fixedValue = -displacement/(startScale - endScale);
+		numberLine.animateTo({magnification:magnification,displacement:displacement},{duration:100,clock:clock});
+		clock.advance(40);
+		expect(numberLine.positionOf(fixedValue)).toBeCloseTo(startScale*fixedValue,8);
+		clock.advance(100);
+		expect(numberLine.valueAt(0)).toBeCloseTo(10,8);
+		expect(numberLine.valueAt(500)).toBeCloseTo(20,8);
+	})
+
+	it("should notify once per frame and cancel running animations",async ()=>{
+		const numberLine = new NumberLine({...animatedOptions});
+		const clock = new ManualClock();
+		const listener = jest.fn();
+		numberLine.subscribe(listener);
+		const first = numberLine.animateTo({magnification:20,displacement:50},{duration:100,clock:clock});
+		clock.advance(10);
+		expect(listener).toHaveBeenCalledTimes(1);
+		const second = numberLine.animateTo({magnification:0},{duration:0,clock:clock});
+		await expect(first.finished).resolves.toBe(false);
+		await expect(second.finished).resolves.toBe(true);
+		expect(numberLine.magnification).toBe(0);
+		clock.advance(200);
+		expect(listener).toHaveBeenCalledTimes(2);
+	})
+
+})
+
+describe("Pan zoom controller",()=>{
+
+	const controlledOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:null,
+		viewportLength:500
+	}
+
+	it("should drag the number line along with the pointer",()=>{
+		const numberLine = new NumberLine({...controlledOptions});
+		const controller = new PanZoomController(numberLine,{clock:new ManualClock()});
+		const value = numberLine.valueAt(100);
+		controller.pointer({type:"down",position:100,time:0});
+		controller.pointer({type:"move",position:160,time:500});
+		expect(numberLine.positionOf(value)).toBeCloseTo(160,10);
+		// released after holding still, so there is no fling
+		controller.pointer({type:"up",position:160,time:1000});
+		expect(controller.moving).toBe(false);
+	})
+
+	it("should fling with friction after a quick release",()=>{
+		const numberLine = new NumberLine({...controlledOptions});
+		const clock = new ManualClock();
+		const controller = new PanZoomController(numberLine,{clock:clock});
+		controller.pointer({type:"down",position:300,time:0});
+		controller.pointer({type:"move",position:250,time:10});
+		controller.pointer({type:"up",position:200,time:20});
+		expect(numberLine.displacement).toBe(100);
+		expect(controller.moving).toBe(true);
+		const displacements:number[] = [];
+		for(let frame=0;frame<200 && controller.moving;frame++){
+			clock.advance(16);
+			displacements.push(numberLine.displacement);
+		}
+		expect(controller.moving).toBe(false);
+		// keeps moving in the direction of the drag while slowing down
+		const steps = displacements.map((displacement,i)=>displacement - (i==0 ? 100 : displacements[i-1]));
+		expect(steps.every(step=>step>0)).toBe(true);
+		expect(steps[steps.length-1]).toBeLessThan(steps[0]);
+	})
+
+	it("should rubber band beyond the domain and spring back",()=>{
+		const numberLine = new NumberLine({...controlledOptions,constraints:{minValue:0}});
+		const clock = new ManualClock();
+		const controller = new PanZoomController(numberLine,{clock:clock,rubberBand:0.5});
+		controller.pointer({type:"down",position:100,time:0});
+		controller.pointer({type:"move",position:200,time:500});
+		expect(numberLine.displacement).toBeCloseTo(-50,10);
+		controller.pointer({type:"up",position:200,time:1000});
+		expect(controller.moving).toBe(true);
+		for(let frame=0;frame<100 && controller.moving;frame++){
+			clock.advance(16);
+		}
+		expect(controller.moving).toBe(false);
+		expect(numberLine.displacement).toBe(0);
+	})
+
+	it("should zoom around the wheel position",()=>{
+		const numberLine = new NumberLine({...controlledOptions});
+		const controller = new PanZoomController(numberLine,{clock:new ManualClock(),wheelSensitivity:0.1});
+		const value = numberLine.valueAt(250);
+		controller.wheel({delta:100,position:250,time:0});
+		expect(numberLine.magnification).toBe(10);
+		expect(numberLine.positionOf(value)).toBeCloseTo(250,10);
+		// a single event has no momentum
+		expect(controller.moving).toBe(false);
+	})
+
+	it("should zoom out with positive wheel deltas on the nice curve",()=>{
+		const numberLine = new NumberLine({...controlledOptions,zoomStrategy:new NiceZoomStrategy()});
+		const controller = new PanZoomController(numberLine,{clock:new ManualClock()});
+		const measure = ()=>numberLine.valueAt(500) - numberLine.valueAt(0);
+		const initial = measure();
+		controller.wheel({delta:100,position:250,time:0});
+		expect(measure()).toBeGreaterThan(initial);
+		controller.wheel({delta:-200,position:250,time:1000});
+		expect(measure()).toBeLessThan(initial);
+	})
+
+	it("should keep zooming after a stream of wheel events",()=>{
+		const numberLine = new NumberLine({...controlledOptions});
+		const clock = new ManualClock();
+		const controller = new PanZoomController(numberLine,{clock:clock,wheelSensitivity:0.01});
+		for(let time = 0; time<=48; time += 16){
+			controller.wheel({delta:10,position:250,time:time});
+		}
+		expect(numberLine.magnification).toBeCloseTo(0.4,10);
+		expect(controller.moving).toBe(true);
+		const magnifications:number[] = [];
+		for(let frame=0;frame<200 && controller.moving;frame++){
+			clock.advance(16);
+			magnifications.push(numberLine.magnification);
+		}
+		expect(controller.moving).toBe(false);
+		// continues in the direction of the wheel while slowing down
+		const steps = magnifications.map((magnification,i)=>magnification - (i==0 ? 0.4 : magnifications[i-1]));
+		expect(steps.every(step=>step>0)).toBe(true);
+		expect(steps[steps.length-1]).toBeLessThan(steps[0]);
+	})
+
+	it("should pinch to zoom keeping the values under the fingers",()=>{
+		const numberLine = new NumberLine({...controlledOptions,zoomStrategy:new NiceZoomStrategy()});
+		const controller = new PanZoomController(numberLine,{clock:new ManualClock()});
+		const left = numberLine.valueAt(200);
+		const right = numberLine.valueAt(300);
+		controller.touch({type:"start",touches:[{id:1,position:200},{id:2,position:300}],time:0});
+		controller.touch({type:"move",touches:[{id:1,position:150},{id:2,position:350}],time:500});
+		expect(numberLine.positionOf(left)).toBeCloseTo(150,6);
+		expect(numberLine.positionOf(right)).toBeCloseTo(350,6);
+		controller.touch({type:"end",touches:[{id:2,position:350}],time:1000});
+		controller.touch({type:"move",touches:[{id:2,position:400}],time:1500});
+		expect(numberLine.positionOf(right)).toBeCloseTo(400,6);
+		controller.touch({type:"end",touches:[],time:2000});
+		expect(controller.moving).toBe(false);
+	})
+
+})
+
+describe("Number Plane",()=>{
+
+	const axisOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:null
+	}
+
+	it("should map points through both number lines",()=>{
+		const plane = new NumberPlane({x:{...axisOptions},y:{...axisOptions,zoomFactor:2}});
+		plane.panTo(50,-100);
+		const value = plane.valueAt({x:250,y:200});
+		expect(value.x).toBeCloseTo(plane.x.valueAt(250),10);
+		expect(value.y).toBeCloseTo(plane.y.valueAt(200),10);
+		const position = plane.positionOf(value);
+		expect(position.x).toBeCloseTo(250,10);
+		expect(position.y).toBeCloseTo(200,10);
+	})
+
+	it("should zoom around a point",()=>{
+		const plane = new NumberPlane({x:{...axisOptions},y:{...axisOptions}});
+		const value = plane.valueAt({x:120,y:80});
+		plane.zoomAround(120,80,13);
+		expect(plane.x.magnification).toBe(13);
+		expect(plane.y.magnification).toBe(13);
+		const position = plane.positionOf(value);
+		expect(position.x).toBeCloseTo(120,10);
+		expect(position.y).toBeCloseTo(80,10);
+	})
+
+	it("should keep a locked aspect ratio",()=>{
+		const plane = new NumberPlane({
+			x:{...axisOptions,zoomStrategy:new NiceZoomStrategy()},
+			y:{...axisOptions,zoomStrategy:new NiceZoomStrategy(),initialMagnification:10},
+			lockAspectRatio:true
+		});
+		const ratio = plane.aspectRatio;
+		expect(ratio).toBeCloseTo(0.5,10);
+		const value = plane.valueAt({x:300,y:300});
+		for(const by of [3,7,-15,22]){
+			plane.zoomAround(300,300,by);
+			expect((plane.y.unitLength/plane.y.unitValue)/(plane.x.unitLength/plane.x.unitValue)).toBeCloseTo(ratio,8);
+			expect(plane.positionOf(value).y).toBeCloseTo(300,8);
+		}
+		plane.lockAspectRatio = false;
+		expect(plane.aspectRatio).toBeNull();
+	})
+
+	it("should build major and minor grid lines",()=>{
+		const plane = new NumberPlane({x:{...axisOptions},y:{...axisOptions}});
+		const viewModel = plane.buildViewModel(300,200);
+		const xLines = viewModel.gridLines.filter(line=>line.axis=="x");
+		const yLines = viewModel.gridLines.filter(line=>line.axis=="y");
+		expect(xLines.length).toBe(viewModel.x.tickMarks.length);
+		expect(yLines.length).toBe(viewModel.y.tickMarks.length);
+		expect(xLines.filter(line=>line.major).map(line=>line.value)).toEqual([0,1,2,3]);
+		expect(yLines.filter(line=>line.major).map(line=>line.position)).toEqual([0,100,200]);
+	})
+
+})
+
+describe("Inverted Number Line",()=>{
+
+	const invertedOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:null,
+		orientation:"vertical",
+		inverted:true,
+		viewportLength:300
+	}
+
+	it("should measure positions from the far end",()=>{
+		const numberLine = new NumberLine({...invertedOptions});
+		expect(numberLine.orientation).toBe("vertical");
+		expect(numberLine.positionOf(0)).toBe(300);
+		expect(numberLine.positionOf(1)).toBe(200);
+		expect(numberLine.valueAt(250)).toBeCloseTo(0.5,10);
+		numberLine.panTo(50);
+		expect(numberLine.valueAt(300)).toBeCloseTo(0.5,10);
+		expect(()=>new NumberLine({...invertedOptions,viewportLength:undefined})).toThrow();
+	})
+
+	it("should keep the hinge in place while zooming",()=>{
+		const numberLine = new NumberLine({...invertedOptions});
+		const value = numberLine.valueAt(80);
+		numberLine.zoomAround(80,14);
+		expect(numberLine.positionOf(value)).toBeCloseTo(80,10);
+	})
+
+	it("should flip and reverse the tick marks of the view model",()=>{
+		const numberLine = new NumberLine({...invertedOptions});
+		const upright = new NumberLine({...invertedOptions,inverted:false});
+		numberLine.panTo(-35);
+		upright.panTo(-35);
+		const viewModel = numberLine.buildViewModel(300);
+		const uprightViewModel = upright.buildViewModel(300);
+		expect(viewModel.tickMarks.map(tickMark=>tickMark.value)).toEqual(uprightViewModel.tickMarks.map(tickMark=>tickMark.value).reverse());
+		viewModel.tickMarks.forEach(tickMark=>{
+			expect(tickMark.position).toBeCloseTo(numberLine.positionOf(tickMark.value),10);
+		});
+		const positions = viewModel.tickMarks.map(tickMark=>tickMark.position);
+		expect(positions).toEqual([...positions].sort((a,b)=>a-b));
+		expect(viewModel.offset).toBe(positions[0]);
+		expect(viewModel.startingValue).toBeCloseTo(uprightViewModel.endingValue,10);
+		expect(viewModel.endingValue).toBeCloseTo(uprightViewModel.startingValue,10);
+	})
+
+	it("should flip logarithmic view models too",()=>{
+		const numberLine = new NumberLine({...invertedOptions,scale:"log"});
+		const viewModel = numberLine.buildViewModel(300);
+		expect(viewModel.tickMarks[viewModel.tickMarks.length-1].value).toBe(1);
+		expect(viewModel.tickMarks[viewModel.tickMarks.length-1].position).toBeCloseTo(300,10);
+		viewModel.tickMarks.forEach(tickMark=>{
+			expect(tickMark.position).toBeCloseTo(numberLine.positionOf(tickMark.value),8);
+		});
+	})
+
+})
+
+describe("Tick levels",()=>{
+
+	const leveledOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:null
+	}
+
+	it("should derive levels from the pattern heights",()=>{
+		const numberLine = new NumberLine({...leveledOptions});
+		expect(numberLine.levels).toEqual([
+			{name:"major",every:10},
+			{name:"mid",every:5},
+			{name:"minor",every:1}
+		]);
+		const viewModel = numberLine.buildViewModel(200);
+		expect(viewModel.tickMarks.slice(0,11).map(tickMark=>tickMark.level)).toEqual(
+			["major","minor","minor","minor","minor","mid","minor","minor","minor","minor","major"]);
+		expect(viewModel.tickMarks[5].levelIndex).toBe(1);
+		expect(new NumberLine({...leveledOptions,pattern:[1]}).levels).toEqual([{name:"major",every:1}]);
+	})
+
+	it("should nest levels across several units",()=>{
+		const numberLine = new NumberLine({...leveledOptions,levels:[
+			{name:"major",every:100,height:4,minSpacing:50},
+			{name:"mid",every:10,height:2},
+			{name:"minor",every:1,minSpacing:8}
+		]});
+		numberLine.panTo(-250);
+		const viewModel = numberLine.buildViewModel(500);
+		const levelAt = (value:number)=>viewModel.tickMarks.find(tickMark=>Math.abs(tickMark.value - value)<1e-9);
+		expect(levelAt(0).level).toBe("major");
+		expect(levelAt(0).height).toBe(4);
+		expect(levelAt(-2).level).toBe("mid");
+		expect(levelAt(1).level).toBe("mid");
+		expect(levelAt(1).height).toBe(2);
+		expect(levelAt(1.5).level).toBe("minor");
+		// falls back to the pattern height
+		expect(levelAt(1.5).height).toBe(2);
+		expect(levelAt(0).visibilityThreshold).toBe(0.5);
+		expect(levelAt(1.1).visibilityThreshold).toBe(8);
+		// zooming into another step of the staircase keeps the levels on the same ticks
+		numberLine.zoomTo(190);
+		numberLine.panTo(-1000);
+		const zoomed = numberLine.buildViewModel(2000);
+		expect(zoomed.tickMarks.filter(tickMark=>tickMark.level=="major").map(tickMark=>tickMark.value)).toEqual([-200,0,200]);
+		expect(zoomed.tickMarks.filter(tickMark=>tickMark.level=="mid").length).toBe(18);
+	})
+
+	it("should validate the nesting of levels",()=>{
+		expect(()=>new NumberLine({...leveledOptions,levels:[{name:"major",every:10},{name:"mid",every:3},{name:"minor",every:1}]})).toThrow();
+		expect(()=>new NumberLine({...leveledOptions,levels:[{name:"major",every:10},{name:"mid",every:5}]})).toThrow();
+		expect(()=>new NumberLine({...leveledOptions,levels:[]})).toThrow();
+	})
+
+	it("should repeat levels within a unit in a logarithmic scale",()=>{
+		const numberLine = new NumberLine({...leveledOptions,scale:"log"});
+		const viewModel = numberLine.buildViewModel(300);
+		viewModel.tickMarks.forEach(tickMark=>{
+			expect(tickMark.level).toBe(tickMark.patternIndex==0 ? "major" : tickMark.patternIndex==5 ? "mid" : "minor");
+		});
+	})
+
+})
+
+describe("Label layout",()=>{
+
+	const labelledOptions:INumberLineOptions={
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:{
+			labelFor:(value)=>value.toFixed(1)
+		}
+	}
+	// every character is 6 units wide
+	const measure = (label:string)=>label.length*6;
+
+	it("should keep every label when there is room",()=>{
+		const numberLine = new NumberLine({...labelledOptions,breakpointLowerbound:400,breakpointUpperBound:400});
+		const viewModel = numberLine.buildViewModel(400,{labelLayout:{measure:measure}});
+		expect(viewModel.tickMarks.every(tickMark=>tickMark.label!=null)).toBe(true);
+		expect(viewModel.tickMarks[1].labelBox).toEqual({start:40 - 9,end:40 + 9});
+	})
+
+	it("should thin out labels by level",()=>{
+		const numberLine = new NumberLine({...labelledOptions});
+		const viewModel = numberLine.buildViewModel(300,{labelLayout:{measure:measure,minSpacing:4}});
+		const labelled = viewModel.tickMarks.filter(tickMark=>tickMark.label!=null);
+		// major and mid labels fit, minor labels in between don't
+		expect(labelled.map(tickMark=>tickMark.label)).toEqual(["0.0","0.5","1.0","1.5","2.0","2.5","3.0"]);
+		for(let i=1;i<labelled.length;i++){
+			expect(labelled[i].labelBox.start - labelled[i-1].labelBox.end).toBeGreaterThanOrEqual(4);
+		}
+		expect(viewModel.tickMarks.filter(tickMark=>tickMark.label==null).every(tickMark=>tickMark.labelBox==undefined)).toBe(true);
+	})
+
+	it("should prefer more important levels over earlier positions",()=>{
+		const numberLine = new NumberLine({...labelledOptions});
+		numberLine.panTo(-15);
+		const viewModel = numberLine.buildViewModel(300,{labelLayout:{measure:()=>60,anchor:"start"}});
+		const labelled = viewModel.tickMarks.filter(tickMark=>tickMark.label!=null);
+		// mid labels would collide with the major ones, only the minor label at the end has room
+		expect(labelled.map(tickMark=>tickMark.level)).toEqual(["major","major","major","minor"]);
+		expect(labelled[0].labelBox).toEqual({start:15,end:75});
+	})
+
+	it("should leave labels as they are without a layout",()=>{
+		const numberLine = new NumberLine({...labelledOptions});
+		expect(numberLine.buildViewModel(300).tickMarks.every(tickMark=>tickMark.label!=null && tickMark.labelBox==undefined)).toBe(true);
+	})
+
+})
+
+describe("Label strategies",()=>{
+
+	const labelsOf = (strategy:ITickMarkLabelStrategy, values:number[])=>values.map(value=>strategy.labelFor(value,0,0,null));
+
+	it("should format fixed decimals",()=>{
+		expect(labelsOf(fixedDecimals(2),[1.5,-0.001,0.1+0.2])).toEqual(["1.50","0.00","0.30"]);
+	})
+
+	it("should format SI prefixes",()=>{
+		expect(labelsOf(siPrefix(),[0,1500,2e6,3e9,0.003,0.0000025,999.999])).toEqual(["0","1.5k","2M","3G","3m","2.5µ","1k"]);
+		expect(labelsOf(siPrefix(),[-1500])).toEqual(["-1.5k"]);
+	})
+
+	it("should format scientific and engineering notations",()=>{
+		expect(labelsOf(scientific(),[0,1500,0.00025,7])).toEqual(["0","1.5×10³","2.5×10⁻⁴","7"]);
+		expect(labelsOf(engineering(),[150000,0.00025,12])).toEqual(["150×10³","250×10⁻⁶","12"]);
+	})
+
+	it("should format percentages and fractions",()=>{
+		expect(labelsOf(percent(),[0.25,1,0.125])).toEqual(["25%","100%","13%"]);
+		expect(labelsOf(percent(1),[0.125])).toEqual(["12.5%"]);
+		expect(labelsOf(fraction(),[0.5,1.75,-0.25,2,1/3,0.3])).toEqual(["½","1¾","-¼","2","⅓","0.30"]);
+		expect(labelsOf(fraction([16]),[5/16,1+3/16])).toEqual(["5/16","1 3/16"]);
+	})
+
+	it("should format durations and dates",()=>{
+		expect(labelsOf(duration(),[90,5,-61])).toEqual(["01:30","00:05","-01:01"]);
+		expect(labelsOf(duration("hh:mm"),[5400])).toEqual(["01:30"]);
+		expect(labelsOf(duration("hh:mm:ss"),[3725])).toEqual(["01:02:05"]);
+		const time = Date.UTC(2024,2,1,23,30);
+		expect(labelsOf(date(),[time])).toEqual(["2024-03-01"]);
+		expect(labelsOf(date({time:true,timeZoneOffset:60}),[time])).toEqual(["2024-03-02 00:30"]);
+	})
+
+	it("should format Chinese units",()=>{
+		expect(labelsOf(chineseUnits(),[15000,3e8,123.45,-2e12,1e16])).toEqual(["1.5 万","3 亿","123.45","-2 万亿","1 亿亿/京"]);
+		expect(formatChineseUnits(15000n)).toBe("1 万");
+		expect(formatChineseUnits(0n)).toBe("0");
+	})
+
+	it("should compose strategies",()=>{
+		const numberLine = new NumberLine({
+			pattern:[3,1,1,1,1,2,1,1,1,1],
+			breakpointLowerbound:100,
+			breakpointUpperBound:150,
+			labelStrategy:majorTicksOnly(withSuffix(withPrefix(siPrefix(),"$"),"/yr")),
+			zoomFactor:1000
+		});
+		const labels = numberLine.buildViewModel(250).tickMarks.filter(tickMark=>tickMark.label!=null).map(tickMark=>tickMark.label);
+		expect(labels).toEqual(["$0/yr","$1k/yr","$2k/yr"]);
+	})
+
+})
+
+describe("Time scale",()=>{
+
+	const HOUR = 3600000;
+	const DAY = 24*HOUR;
+
+	it("should choose calendar intervals that span the duration",()=>{
+		expect(timeIntervalFor(700)).toEqual({unit:"second",step:1});
+		expect(timeIntervalFor(20*60000)).toEqual({unit:"minute",step:30});
+		expect(timeIntervalFor(2.4*HOUR)).toEqual({unit:"hour",step:3});
+		expect(timeIntervalFor(20*DAY)).toEqual({unit:"month",step:1});
+		expect(timeIntervalFor(300*DAY)).toEqual({unit:"year",step:1});
+		expect(timeIntervalFor(30*365*DAY)).toEqual({unit:"year",step:50});
+	})
+
+	it("should follow month lengths and leap years",()=>{
+		const month = {unit:"month" as const,step:1};
+		const year = {unit:"year" as const,step:1};
+		const days = (start:number,end:number)=>{
+			const ticks = timeTicks(start,end,month,year);
+			return ticks.slice(1).map((tick,i)=>(tick.value - ticks[i].value)/DAY);
+		}
+		expect(days(Date.UTC(2024,0,1),Date.UTC(2024,3,1))).toEqual([31,29,31]);
+		expect(days(Date.UTC(2023,0,1),Date.UTC(2023,3,1))).toEqual([31,28,31]);
+		expect(days(Date.UTC(1900,1,1),Date.UTC(1900,2,1))).toEqual([28]);
+		const ticks = timeTicks(Date.UTC(2023,11,15),Date.UTC(2024,1,15),month,year);
+		expect(ticks.map(tick=>tick.major)).toEqual([true,false]);
+		expect(ticks[1].fraction).toBeCloseTo(31/366,10);
+	})
+
+	it("should step through weeks that start on mondays between days and months",()=>{
+		expect(timeIntervalFor(3*DAY)).toEqual({unit:"week",step:1});
+		expect(timeIntervalFor(10*DAY)).toEqual({unit:"week",step:2});
+		const ticks = timeTicks(Date.UTC(2024,2,1),Date.UTC(2024,3,1),{unit:"week",step:1},{unit:"month",step:1});
+		expect(ticks.map(tick=>new Date(tick.value).getUTCDate())).toEqual([1,4,11,18,25,1]);
+		expect(ticks.slice(1,5).every(tick=>new Date(tick.value).getUTCDay()==1)).toBe(true);
+		expect(ticks.map(tick=>tick.major)).toEqual([true,false,false,false,false,true]);
+		expect(formatTime(ticks[1].value,"week")).toBe("03-04");
+	})
+
+	it("should snap ticks to the boundaries of the time zone",()=>{
+		const offset = 330*60000;
+		const ticks = timeTicks(Date.UTC(2024,1,1),Date.UTC(2024,1,2),{unit:"day",step:1},{unit:"month",step:1},offset);
+		expect(ticks.map(tick=>tick.value)).toEqual([Date.UTC(2024,1,2) - offset]);
+		expect(formatTime(ticks[0].value,"minute",330)).toBe("00:00");
+		expect(formatTime(ticks[0].value,"day",330)).toBe("02-02");
+		expect(formatTime(ticks[0].value,"day")).toBe("02-01");
+	})
+
+	it("should build calendar tick marks that change with the zoom",()=>{
+		const start = Date.UTC(2024,1,28,10,30);
+		const numberLine = new NumberLine({
+			pattern:[3,1,1,1,1,2,1,1,1,1],
+			breakpointLowerbound:100,
+			breakpointUpperBound:150,
+			scale:"time",
+			timeZoneOffset:60,
+			zoomFactor:DAY,
+			labelStrategy:timeLabels(),
+			initialDisplacement:100/DAY*start
+		});
+		const viewModel = numberLine.buildViewModel(200);
+		const labels = viewModel.tickMarks.map(tickMark=>tickMark.label);
+		expect(labels).toEqual([
+			"12:00","15:00","18:00","21:00",
+			"02-29","03:00","06:00","09:00","12:00","15:00","18:00","21:00",
+			"03-01","03:00","06:00","09:00"
+		]);
+		expect(viewModel.tickMarks.filter(tickMark=>tickMark.patternIndex==0).map(tickMark=>tickMark.value)).toEqual([Date.UTC(2024,1,28,23),Date.UTC(2024,1,29,23)]);
+		expect(viewModel.tickMarks[1].patternIndex).toBe(6);
+		expect(viewModel.tickMarks[4].position).toBeCloseTo(100*(Date.UTC(2024,1,28,23) - start)/DAY,6);
+
+		// a week per unit, with a tick every day and major ones every week, on mondays
+		numberLine.zoomTo(6*numberLine.zoomPeriod);
+		numberLine.panTo(numberLine.unitLength/numberLine.unitValue*Date.UTC(2024,1,27));
+		const zoomedOutTicks = numberLine.buildViewModel(200).tickMarks;
+		expect(zoomedOutTicks.slice(0,4).map(tickMark=>tickMark.label)).toEqual(["02-28","02-29","03-01","03-02"]);
+		expect(zoomedOutTicks.filter(tickMark=>tickMark.patternIndex==0).map(tickMark=>tickMark.value)[0]).toBe(Date.UTC(2024,2,3,23));
+	})
+
+	it("should reject exact values and keep the time zone when serialized",()=>{
+		const options:INumberLineOptions = {pattern:[1],breakpointLowerbound:100,breakpointUpperBound:150,labelStrategy:null,scale:"time",timeZoneOffset:-300};
+		expect(()=>new NumberLine({...options,numericAdapter:bigIntAdapter})).toThrow();
+		expect(NumberLine.fromJSON(new NumberLine(options).toJSON()).timeZoneOffset).toBe(-300);
+	})
+
+})
+
+describe("Incremental view model",()=>{
+
+	const countingOptions = ()=>{
+		const calls:number[] = [];
+		const options:INumberLineOptions = {
+			pattern:[3,1,1,1,1,2,1,1,1,1],
+			breakpointLowerbound:100,
+			breakpointUpperBound:150,
+			labelStrategy:{labelFor:(value)=>{
+				calls.push(value);
+				return `${value}`;
+			}}
+		};
+		return {calls,options};
+	}
+
+	it("should reuse tick marks and labels while panning",()=>{
+		const {calls,options} = countingOptions();
+		const numberLine = new NumberLine(options);
+		const builder = new ViewModelBuilder(numberLine);
+		const first = builder.build(100);
+		expect(first.rebuilt).toBe(true);
+		expect(first.entered.length).toBe(11);
+		expect(calls.length).toBe(11);
+
+		numberLine.panBy(25);
+		const second = builder.build(100);
+		expect(second.rebuilt).toBe(false);
+		expect(second.entered.map(tickMark=>tickMark.value)).toEqual([1.1,1.2]);
+		expect(second.exited.map(tickMark=>tickMark.value)).toEqual([0,0.1,0.2]);
+		expect(second.tickMarks[0]).toBe(first.tickMarks[3]);
+		expect(second.tickMarks[0].position).toBeCloseTo(5,10);
+		expect(calls.length).toBe(13);
+
+		// values that scroll back into view keep their labels
+		numberLine.panBy(-25);
+		const third = builder.build(100);
+		expect(calls.length).toBe(13);
+		expect(third.tickMarks).toEqual(numberLine.buildViewModel(100).tickMarks);
+	})
+
+	it("should start over when the zoom or the options change",()=>{
+		const {calls,options} = countingOptions();
+		const numberLine = new NumberLine(options);
+		const builder = new ViewModelBuilder(numberLine);
+		const first = builder.build(100);
+		numberLine.zoomTo(5);
+		const zoomed = builder.build(100);
+		expect(zoomed.rebuilt).toBe(true);
+		expect(zoomed.exited).toEqual(first.tickMarks);
+		expect(zoomed.tickMarks[0]).not.toBe(first.tickMarks[0]);
+
+		numberLine.updateOptions({labelStrategy:fixedDecimals(1)});
+		const relabelled = builder.build(100);
+		expect(relabelled.rebuilt).toBe(true);
+		expect(relabelled.tickMarks[1].label).toBe("0.1");
+		expect(calls.length).toBe(20);
+	})
+
+	it("should restore labels dropped by the label layout of a previous frame",()=>{
+		const {options} = countingOptions();
+		const numberLine = new NumberLine(options);
+		const builder = new ViewModelBuilder(numberLine);
+		const crowded = builder.build(100,{labelLayout:{measure:()=>30}});
+		expect(crowded.tickMarks[1].label).toBeNull();
+		const spacious = builder.build(100);
+		expect(spacious.tickMarks[1].label).toBe("0.1");
+		expect(spacious.tickMarks[1].labelBox).toBeUndefined();
+	})
+
+	it("should keep the labels dropped by the label layout when trimming the label cache",()=>{
+		const {options} = countingOptions();
+		const numberLine = new NumberLine(options);
+		const builder = new ViewModelBuilder(numberLine);
+		const labelLayout = {measure:()=>15};
+		const labels = (viewModel:NumberLineViewModel)=>viewModel.tickMarks.map(tickMark=>tickMark.label).join();
+		// a new tick mark enters every frame, so the cache grows past its limit
+		const mismatches:number[] = [];
+		for(let frame = 0; frame<1100; frame++){
+			if(labels(builder.build(100,{labelLayout:labelLayout}))!=labels(numberLine.buildViewModel(100,{labelLayout:labelLayout}))){
+				mismatches.push(frame);
+			}
+			numberLine.panBy(10);
+		}
+		expect(mismatches).toEqual([]);
+	})
+
+})
+
+describe("Overscan and windows",()=>{
+
+	const options = ():INumberLineOptions=>({
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:fixedDecimals(1)
+	});
+
+	it("should build beyond both ends when overscanned",()=>{
+		const numberLine = new NumberLine(options());
+		const viewModel = numberLine.buildViewModel(100,{overscan:20});
+		expect(viewModel.start).toBe(-20);
+		expect(viewModel.end).toBe(120);
+		expect(viewModel.length).toBe(140);
+		expect(viewModel.startingValue).toBeCloseTo(-0.2,10);
+		expect(viewModel.tickMarks.map(tickMark=>tickMark.label)).toEqual(["-0.2","-0.1","0.0","0.1","0.2","0.3","0.4","0.5","0.6","0.7","0.8","0.9","1.0","1.1","1.2"]);
+		expect(viewModel.tickMarks[0].position).toBeCloseTo(-20,10);
+		expect(viewModel.offset).toBeCloseTo(0,10);
+
+		const units = numberLine.buildViewModel(100,{overscanUnits:1,overscan:5});
+		expect(units.start).toBe(-105);
+		expect(units.tickMarks[0].value).toBeCloseTo(-1,10);
+		expect(units.tickMarks[units.tickMarks.length-1].value).toBeCloseTo(2,10);
+	})
+
+	it("should build any window of positions",()=>{
+		const numberLine = new NumberLine(options());
+		const window = numberLine.buildViewModelRange(1000,1100);
+		expect(window.start).toBe(1000);
+		expect(window.end).toBe(1100);
+		expect(window.tickMarks.map(tickMark=>tickMark.tickIndex)).toEqual([100,101,102,103,104,105,106,107,108,109,110]);
+		expect(window.tickMarks[0].position).toBeCloseTo(1000,10);
+		expect(window.startingValue).toBeCloseTo(10,10);
+
+		numberLine.panTo(1000);
+		const panned = numberLine.buildViewModel(100);
+		expect(window.tickMarks.map(tickMark=>tickMark.label)).toEqual(panned.tickMarks.map(tickMark=>tickMark.label));
+		expect(()=>numberLine.buildViewModelRange(100,0)).toThrow();
+	})
+
+	it("should build windows of inverted and logarithmic number lines",()=>{
+		const inverted = new NumberLine({...options(),inverted:true,viewportLength:100});
+		expect(inverted.buildViewModelRange(0,100)).toEqual(inverted.buildViewModel(100));
+		const window = inverted.buildViewModelRange(0,50);
+		expect(window.tickMarks.map(tickMark=>tickMark.label)).toEqual(["1.0","0.9","0.8","0.7","0.6","0.5"]);
+		expect(window.startingValue).toBeCloseTo(1,10);
+
+		const log = new NumberLine({...options(),scale:"log"});
+		const decades = log.buildViewModelRange(100,200).tickMarks.filter(tickMark=>tickMark.patternIndex==0);
+		expect(decades.map(tickMark=>tickMark.value)).toEqual([10,100]);
+		expect(decades[0].position).toBeCloseTo(100,10);
+	})
+
+})
+
+describe("Segmented Number Line",()=>{
+
+	const options = ():INumberLineOptions=>({
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:fixedDecimals(0),
+		zoomFactor:10,
+		segments:[{from:0,to:10},{from:1000,to:1010}],
+		segmentGap:20
+	});
+
+	it("should map values and positions through the segments",()=>{
+		const numberLine = new NumberLine(options());
+		expect(numberLine.positionOf(5)).toBeCloseTo(50,10);
+		expect(numberLine.positionOf(1000)).toBeCloseTo(120,10);
+		expect(numberLine.positionOf(1005)).toBeCloseTo(170,10);
+		expect(numberLine.positionOf(505)).toBeCloseTo(110,10);
+		expect(numberLine.positionOf(-1)).toBeCloseTo(-10,10);
+		expect(numberLine.valueAt(170)).toBeCloseTo(1005,10);
+		expect(numberLine.valueAt(110)).toBeCloseTo(505,10);
+		expect(numberLine.valueAt(300)).toBeCloseTo(1018,10);
+
+		numberLine.zoomAround(170,5);
+		expect(numberLine.positionOf(1005)).toBeCloseTo(170,6);
+		expect(numberLine.positionOf(1000) - numberLine.positionOf(10)).toBeCloseTo(20,10);
+	})
+
+	it("should leave room for breaks when fitting and constraining",()=>{
+		const brokenOptions = ():INumberLineOptions=>({...options(),zoomFactor:1,segments:[{from:0,to:10},{from:100,to:110}],segmentGap:40});
+		const numberLine = new NumberLine(brokenOptions());
+		const result = numberLine.fitTo(0,110,500);
+		expect(result.fitted).toBe(true);
+		expect(numberLine.positionOf(0)).toBeCloseTo(0,8);
+		expect(numberLine.positionOf(110)).toBeCloseTo(500,8);
+		expect(numberLine.isRangeFittable(0,110,500,115)).toBe(true);
+		expect(numberLine.isRangeFittable(0,110,460,115)).toBe(false);
+		expect(()=>numberLine.fit(0,110,30)).toThrow("Breaks leave no length to fit the range in");
+
+		const [magnification,displacement] = numberLine.rangeFit(0,110,500);
+		numberLine.zoomTo(magnification);
+		numberLine.panTo(displacement);
+		expect(numberLine.positionOf(0)).toBeCloseTo(0,8);
+		expect(numberLine.positionOf(110)).toBeLessThanOrEqual(500);
+
+		const constrained = new NumberLine({...brokenOptions(),constraints:{maxValue:110},viewportLength:500});
+		constrained.panBy(1e6);
+		expect(constrained.positionOf(110)).toBeCloseTo(500,8);
+	})
+
+	it("should build the same tick marks as a linear number line at the origin",()=>{
+		const ticks = (numberLine:NumberLine)=>numberLine.buildViewModel(100).tickMarks
+			.map(tickMark=>[tickMark.value,tickMark.position,tickMark.tickIndex,tickMark.patternIndex]);
+		const {segments,segmentGap,...linearOptions} = options();
+		for(const inverted of [false,true]){
+			const segmented = ticks(new NumberLine({...options(),inverted:inverted,viewportLength:100}));
+			// toEqual tells -0 from 0
+			expect(segmented).toEqual(ticks(new NumberLine({...linearOptions,inverted:inverted,viewportLength:100})));
+			expect(segmented.some(([value])=>Object.is(value,0))).toBe(true);
+		}
+	})
+
+	it("should build tick marks for every segment along with break markers",()=>{
+		const numberLine = new NumberLine(options());
+		const viewModel = numberLine.buildViewModel(220);
+		const labels = viewModel.tickMarks.map(tickMark=>tickMark.label);
+		expect(labels).toEqual(["0","1","2","3","4","5","6","7","8","9","10","1000","1001","1002","1003","1004","1005","1006","1007","1008","1009","1010"]);
+		expect(viewModel.tickMarks[11].position).toBeCloseTo(120,10);
+		expect(viewModel.tickMarks[11].patternIndex).toBe(0);
+		expect(viewModel.breaks).toEqual([{start:100,end:120,valueBefore:10,valueAfter:1000}]);
+
+		expect(numberLine.buildViewModel(90).breaks).toEqual([]);
+	})
+
+	it("should count the ticks of a segment in its own scale",()=>{
+		const numberLine = new NumberLine({...options(),segments:[{from:0,to:10},{from:1000,to:2000,scale:0.01}]});
+		const viewModel = numberLine.buildViewModelRange(120,220);
+		expect(viewModel.tickMarks.map(tickMark=>tickMark.value)).toEqual([1000,1100,1200,1300,1400,1500,1600,1700,1800,1900,2000]);
+		expect(numberLine.positionOf(1500)).toBeCloseTo(170,10);
+	})
+
+	it("should flip segments of an inverted number line",()=>{
+		const numberLine = new NumberLine({...options(),inverted:true,viewportLength:220});
+		const viewModel = numberLine.buildViewModel(220);
+		expect(viewModel.tickMarks[0].value).toBe(1010);
+		expect(viewModel.tickMarks[0].position).toBeCloseTo(0,10);
+		expect(viewModel.breaks).toEqual([{start:100,end:120,valueBefore:10,valueAfter:1000}]);
+		expect(numberLine.valueAt(50)).toBeCloseTo(1005,10);
+	})
+
+	it("should validate and serialize segments",()=>{
+		expect(()=>new NumberLine({...options(),segments:[{from:0,to:10},{from:5,to:20}]})).toThrow();
+		expect(()=>new NumberLine({...options(),segments:[{from:0,to:10,scale:0}]})).toThrow();
+		expect(()=>new NumberLine({...options(),scale:"log"})).toThrow();
+		const restored = NumberLine.fromJSON(JSON.stringify(new NumberLine(options())),{labelStrategy:null});
+		expect(restored.options.segments).toEqual(options().segments);
+		expect(restored.positionOf(1005)).toBeCloseTo(170,10);
+	})
+
+})
+
+describe("Markers and ranges",()=>{
+
+	const options = ():INumberLineOptions=>({
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:null
+	});
+
+	it("should resolve markers to positions and flag the ones out of view",()=>{
+		const numberLine = new NumberLine(options());
+		numberLine.setMarker({id:"a",value:0.5,style:"ball",label:"A"});
+		numberLine.setMarker({id:"b",value:3});
+		numberLine.setMarker({id:"c",value:-1});
+		const markers = numberLine.buildViewModel(100).markers;
+		expect(markers.map(marker=>marker.id)).toEqual(["a","b","c"]);
+		expect(markers[0]).toEqual({id:"a",value:0.5,style:"ball",label:"A",position:50,clippedPosition:50,offscreen:null});
+		expect(markers[1].position).toBeCloseTo(300,10);
+		expect(markers[1].clippedPosition).toBe(100);
+		expect(markers[1].offscreen).toBe("end");
+		expect(markers[2].offscreen).toBe("start");
+
+		numberLine.setMarker({id:"a",value:0.25});
+		expect(numberLine.markers.length).toBe(3);
+		expect(numberLine.buildViewModel(100).markers[0].position).toBeCloseTo(25,10);
+		expect(numberLine.removeMarker("b")).toBe(true);
+		expect(numberLine.removeMarker("b")).toBe(false);
+		expect(numberLine.markers.map(marker=>marker.id)).toEqual(["a","c"]);
+	})
+
+	it("should clip ranges to the view model",()=>{
+		const numberLine = new NumberLine({...options(),inverted:true,viewportLength:100});
+		numberLine.setRange({id:"inside",from:0.2,to:0.4});
+		numberLine.setRange({id:"across",from:0.5,to:2,style:"warning"});
+		numberLine.setRange({id:"beyond",from:-3,to:-2});
+		const [inside,across,beyond] = numberLine.buildViewModel(100).ranges;
+		expect(inside.start).toBeCloseTo(60,10);
+		expect(inside.end).toBeCloseTo(80,10);
+		expect([inside.clippedStart,inside.clippedEnd,inside.offscreen]).toEqual([false,false,null]);
+		// values grow towards the start of an inverted number line
+		expect(across.start).toBe(0);
+		expect(across.end).toBeCloseTo(50,10);
+		expect([across.clippedStart,across.clippedEnd,across.offscreen]).toEqual([true,false,null]);
+		expect(beyond.offscreen).toBe("end");
+		expect(beyond.start).toBe(beyond.end);
+		expect(()=>numberLine.setRange({id:"backwards",from:1,to:0})).toThrow();
+	})
+
+	it("should notify and serialize annotations",()=>{
+		const numberLine = new NumberLine(options());
+		const events:NumberLineChangeEvent[] = [];
+		numberLine.subscribe(event=>events.push(event),["annotations"]);
+		numberLine.setMarker({id:"a",value:1});
+		numberLine.removeMarker("missing");
+		numberLine.panBy(10);
+		expect(events.map(event=>event.types)).toEqual([["annotations"]]);
+
+		numberLine.setRange({id:"r",from:1,to:2,label:"Range"});
+		const restored = NumberLine.fromJSON(JSON.stringify(numberLine));
+		expect(restored.markers).toEqual([{id:"a",value:1}]);
+		expect(restored.ranges).toEqual([{id:"r",from:1,to:2,label:"Range"}]);
+	})
+
+})
+
+describe("Canvas renderer",()=>{
+
+	/** A canvas whose context records the calls made to it */
+	const recordingCanvas = ()=>{
+		const calls:[string,unknown[]][] = [];
+		const context = new Proxy({},{
+			get:(target:{[key:string]:unknown},key:string)=>key in target ? target[key] : (...args:unknown[])=>{calls.push([key,args]);},
+			set:(target:{[key:string]:unknown},key:string,value:unknown)=>{
+				target[key] = value;
+				return true;
+			}
+		});
+		const canvas = {width:0,height:0,style:{},getContext:()=>context} as unknown as HTMLCanvasElement;
+		return {calls,canvas};
+	}
+
+	const options = ():INumberLineOptions=>({
+		pattern:[3,1,1,1,1,2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:majorTicksOnly(fixedDecimals(0))
+	});
+
+	it("should align lines to device pixels",()=>{
+		expect(crispPosition(10.3,1,1)).toBe(10.5);
+		expect(crispPosition(10.3,1,2)).toBe(10.5);
+		expect(crispPosition(10.2,1,2)).toBe(10);
+		expect(crispPosition(10.3,2,1)).toBe(10);
+		expect(crispPosition(10.3,1,1.5)).toBeCloseTo(10,10);
+	})
+
+	it("should size the canvas for the device pixel ratio",()=>{
+		const {canvas} = recordingCanvas();
+		const renderer = new CanvasRenderer(canvas,{devicePixelRatio:2});
+		renderer.resize(300,40);
+		expect([canvas.width,canvas.height,canvas.style.width]).toEqual([600,80,"300px"]);
+	})
+
+	it("should draw tick marks and labels and skip unchanged frames",()=>{
+		const {calls,canvas} = recordingCanvas();
+		const renderer = new CanvasRenderer(canvas,{devicePixelRatio:1,theme:{background:"white"}});
+		renderer.resize(100,40);
+		const numberLine = new NumberLine(options());
+		numberLine.setMarker({id:"a",value:0.5});
+		expect(renderer.render(numberLine.buildViewModel(100))).toBe(true);
+		// 11 tick marks and the marker
+		expect(calls.filter(([name])=>name=="moveTo").length).toBe(12);
+		expect(calls.filter(([name])=>name=="fillText").map(([,args])=>args.slice(0,3))).toEqual([["0",0,24],["1",100,24]]);
+		expect(calls.some(([name,args])=>name=="moveTo" && args[0]==10.5)).toBe(true);
+
+		calls.length = 0;
+		expect(renderer.render(numberLine.buildViewModel(100))).toBe(false);
+		expect(calls.length).toBe(0);
+		numberLine.panBy(5);
+		expect(renderer.render(numberLine.buildViewModel(100))).toBe(true);
+		renderer.invalidate();
+		expect(renderer.render(numberLine.buildViewModel(100))).toBe(true);
+	})
+
+	it("should rotate vertical number lines",()=>{
+		const {calls,canvas} = recordingCanvas();
+		const renderer = new CanvasRenderer(canvas,{devicePixelRatio:2});
+		renderer.resize(40,100);
+		const numberLine = new NumberLine({...options(),orientation:"vertical"});
+		renderer.render(numberLine.buildViewModel(100));
+		expect(calls.filter(([name])=>name=="setTransform").map(([,args])=>args)).toContainEqual([0,2,-2,0,80,0]);
+		expect(calls.filter(([name])=>name=="fillText").map(([,args])=>args.slice(0,3))).toEqual([["0",16,0],["1",16,100]]);
+	})
+
+})
+
+describe("SVG renderer",()=>{
+
+	const options = ():INumberLineOptions=>({
+		pattern:[2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:majorTicksOnly(withPrefix(fixedDecimals(0),"<"))
+	});
+
+	it("should render a standalone SVG document",()=>{
+		const numberLine = new NumberLine(options());
+		const svg = renderSvg(numberLine.buildViewModel(100),{breadth:40});
+		expect(svg.startsWith(`<svg xmlns="http://www.w3.org/2000/svg" width="100" height="40" viewBox="0 0 100 40">`)).toBe(true);
+		expect(svg).toContain(`<line x1="0" y1="0" x2="0" y2="20"/><line x1="20" y1="0" x2="20" y2="10"/>`);
+		expect(svg.match(/<line /g).length).toBe(6);
+		expect(svg).toContain(`<text x="0" y="24">&lt;0</text><text x="100" y="24">&lt;1</text>`);
+	})
+
+	it("should render vertical number lines and annotations",()=>{
+		const numberLine = new NumberLine({...options(),orientation:"vertical"});
+		numberLine.setMarker({id:"a",value:0.5,style:"ball",label:"A & B"});
+		numberLine.setRange({id:"r",from:0.2,to:2});
+		const svg = renderSvg(numberLine.buildViewModel(100),{breadth:40,theme:{styles:{ball:"red"}}});
+		expect(svg).toContain(`width="40" height="100"`);
+		expect(svg).toContain(`<line x1="40" y1="20" x2="30" y2="20"/>`);
+		expect(svg).toContain(`<text x="16" y="0">&lt;0</text>`);
+		expect(svg).toContain(`<rect class="range" x="0" y="20" width="40" height="80"`);
+		expect(svg).toContain(`<line class="marker" x1="40" y1="50" x2="0" y2="50" stroke="red" stroke-width="2"><title>A &amp; B</title></line>`);
+	})
+
+	it("should render into an svg element",()=>{
+		const attributes:{[name:string]:string} = {};
+		const element = {innerHTML:"",setAttribute:(name:string,value:string)=>attributes[name] = value} as unknown as SVGSVGElement;
+		const numberLine = new NumberLine(options());
+		renderSvgInto(numberLine.buildViewModel(100),element);
+		expect(attributes).toEqual({width:"100",height:"50",viewBox:"0 0 100 50"});
+		expect(element.innerHTML).toContain(`<g class="ticks"`);
+	})
+
+})
+
+describe("HTML renderer",()=>{
+
+	/** Just enough of the DOM for the ruler, with elements that keep their children in an array */
+	class FakeElement{
+		className = "";
+		id = "";
+		textContent = "";
+		style:{[key:string]:string} = {};
+		children:FakeElement[] = [];
+		parent:FakeElement = null;
+		constructor(readonly ownerDocument:FakeDocument,readonly tagName:string,private readonly size = {width:0,height:0}){
+		}
+		readonly classList = {
+			add:(name:string)=>{
+				if(!this.classList.contains(name)){
+					this.className = [...this.classes(),name].join(" ");
+				}
+			},
+			remove:(name:string)=>{
+				this.className = this.classes().filter(existing=>existing!=name).join(" ");
+			},
+			toggle:(name:string,force:boolean)=>force ? this.classList.add(name) : this.classList.remove(name),
+			contains:(name:string)=>this.classes().includes(name)
+		};
+		append(child:FakeElement){
+			child.remove();
+			child.parent = this;
+			this.children.push(child);
+		}
+		remove(){
+			if(this.parent!=null){
+				this.parent.children.splice(this.parent.children.indexOf(this),1);
+				this.parent = null;
+			}
+		}
+		getBoundingClientRect(){
+			return this.size;
+		}
+		private classes(){
+			return this.className.split(" ").filter(name=>name!="");
+		}
+	}
+
+	class FakeDocument{
+		readonly head = new FakeElement(this,"head");
+		createElement(tagName:string){
+			return new FakeElement(this,tagName);
+		}
+		getElementById(id:string){
+			return this.head.children.find(child=>child.id==id) ?? null;
+		}
+	}
+
+	const container = (width:number,height:number)=>{
+		const document = new FakeDocument();
+		return {document,element:new FakeElement(document,"div",{width,height})};
+	}
+	const asElement = (element:FakeElement)=>element as unknown as HTMLElement;
+	const ofClass = (element:FakeElement,name:string)=>element.children.filter(child=>child.classList.contains(name));
+
+	const options = ():INumberLineOptions=>({
+		pattern:[2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:majorTicksOnly(fixedDecimals(0))
+	});
+
+	it("should render tick marks and labels styled by classes",()=>{
+		const {document,element} = container(100,50);
+		const ruler = new HtmlRuler(asElement(element));
+		ruler.update(new NumberLine(options()));
+		expect(element.className).toBe("nl-ruler nl-ruler-horizontal");
+		const ticks = ofClass(element,"nl-tick");
+		expect(ticks.length).toBe(6);
+		expect(ticks[1].style).toEqual({left:"20px",height:"50%",top:"",width:""});
+		expect(ticks.map(tick=>tick.classList.contains("nl-tick-major"))).toEqual([true,false,false,false,false,true]);
+		expect(ofClass(element,"nl-label").map(label=>[label.textContent,label.style["left"]])).toEqual([["0","0px"],["1","100px"]]);
+		expect(document.head.children.length).toBe(1);
+		new HtmlRuler(asElement(container(100,50).element));
+		new HtmlRuler(asElement(new FakeElement(document,"div")));
+		expect(document.head.children.length).toBe(1);
+	})
+
+	it("should reuse the elements of values still in view",()=>{
+		const {element} = container(100,50);
+		const ruler = new HtmlRuler(asElement(element));
+		const numberLine = new NumberLine(options());
+		ruler.update(numberLine);
+		const [first,second] = ofClass(element,"nl-tick");
+		numberLine.panBy(25);
+		ruler.update(numberLine);
+		const ticks = ofClass(element,"nl-tick");
+		expect(ticks.length).toBe(5);
+		expect(ticks.includes(first)).toBe(false);
+		expect(ticks.includes(second)).toBe(false);
+		expect(ticks[0].style["left"]).toBe("15px");
+		expect(ofClass(element,"nl-label").map(label=>label.textContent)).toEqual(["1"]);
+		expect(ruler.tickCount).toBe(5);
+
+		numberLine.panBy(-25);
+		ruler.update(numberLine);
+		expect(element.children.length).toBe(8);
+	})
+
+	it("should lay out vertical rulers and clean up when destroyed",()=>{
+		const {element} = container(50,100);
+		const ruler = new HtmlRuler(asElement(element),{injectStyles:false});
+		ruler.update(new NumberLine({...options(),orientation:"vertical"}));
+		expect(element.className).toBe("nl-ruler nl-ruler-vertical");
+		expect(ofClass(element,"nl-tick")[1].style).toEqual({top:"20px",width:"50%",left:"",height:""});
+		expect(element.ownerDocument.head.children.length).toBe(0);
+		ruler.destroy();
+		expect(element.children.length).toBe(0);
+		expect(element.className).toBe("");
+		expect(()=>ruler.update(new NumberLine(options()))).toThrow("The ruler was destroyed");
+	})
+
+	it("should update instead of duplicating on repeated renders",()=>{
+		const {element} = container(100,50);
+		const numberLine = new NumberLine(options());
+		render(numberLine,asElement(element));
+		render(numberLine,asElement(element));
+		expect(element.children.length).toBe(8);
+		render(numberLine,asElement(element),false);
+		expect(element.className).toBe("nl-ruler nl-ruler-vertical");
+		// laid out along the height of 50
+		expect(element.children.length).toBe(4);
+	})
+
+})
+
+describe("ASCII renderer",()=>{
+
+	const options = ():INumberLineOptions=>({
+		pattern:[2,1,1,1,1],
+		breakpointLowerbound:100,
+		breakpointUpperBound:150,
+		labelStrategy:majorTicksOnly(fixedDecimals(0))
+	});
+
+	it("should draw tick marks scaled by their heights with labels under them",()=>{
+		const numberLine = new NumberLine(options());
+		expect(renderAscii(numberLine.buildViewModel(100),{columns:21})).toBe([
+			"|                   |",
+			"|   |   |   |   |   |",
+			"+---+---+---+---+---+",
+			"0                   1"
+		].join("\n"));
+		expect(renderAscii(numberLine.buildViewModel(100),{columns:21,rows:1,unicode:true})).toBe([
+			"│   │   │   │   │   │",
+			"┴───┴───┴───┴───┴───┴",
+			"0                   1"
+		].join("\n"));
+	})
+
+	it("should follow pans and zooms",()=>{
+		const numberLine = new NumberLine(options());
+		numberLine.panBy(10);
+		expect(renderAscii(numberLine.buildViewModel(100),{columns:11})).toBe([
+			"         |",
+			" | | | | |",
+			"-+-+-+-+-+-",
+			"         1"
+		].join("\n"));
+		numberLine.zoomTo(10);
+		numberLine.panTo(0);
+		expect(renderAscii(numberLine.buildViewModel(100),{columns:11,unicode:true})).toBe([
+			"│         │",
+			"│ │ │ │ │ │",
+			"┴─┴─┴─┴─┴─┴",
+			"0         2"
+		].join("\n"));
+	})
+
+	it("should leave out labels that would overlap, preferring taller tick marks",()=>{
+		const numberLine = new NumberLine({...options(),labelStrategy:fixedDecimals(1)});
+		expect(renderAscii(numberLine.buildViewModel(100),{columns:21,rows:0})).toBe([
+			"+---+---+---+---+---+",
+			"0.0    0.4 0.6    1.0"
+		].join("\n"));
+	})
+
+	it("should keep the tallest tick mark of a column",()=>{
+		const numberLine = new NumberLine(options());
+		expect(renderAscii(numberLine.buildViewModel(100),{columns:3})).toBe([
+			"| |",
+			"|||",
+			"+++",
+			"0 1"
+		].join("\n"));
+		expect(()=>renderAscii(numberLine.buildViewModel(100),{columns:0})).toThrow("There must be at least one column and no negative rows");
+	})
+
+})
+
+describe("Entry point",()=>{
+
+	it("should export the label strategies from the package entry point",()=>{
+		expect(entryPoint.fixedDecimals).toBe(fixedDecimals);
+		expect(entryPoint.siPrefix).toBe(siPrefix);
+		expect(entryPoint.majorTicksOnly).toBe(majorTicksOnly);
+	})
+
+	it("should export the numeric adapters from the package entry point",()=>{
+		expect(entryPoint.bigIntAdapter).toBe(bigIntAdapter);
+		expect(entryPoint.decimalAdapter).toBe(decimalAdapter);
+	})
+
+	it("should export the time scale from the package entry point",()=>{
+		expect(entryPoint.timeLabels).toBe(timeLabels);
+		expect(entryPoint.timeTicks).toBe(timeTicks);
+		expect(entryPoint.formatTime).toBe(formatTime);
+	})
+
+	it("should export the pan zoom controller from the package entry point",()=>{
+		expect(entryPoint.PanZoomController).toBe(PanZoomController);
+	})
+
+	it("should export the number plane from the package entry point",()=>{
+		expect(entryPoint.NumberPlane).toBe(NumberPlane);
+	})
+
+	it("should export the incremental view model builder from the package entry point",()=>{
+		expect(entryPoint.ViewModelBuilder).toBe(ViewModelBuilder);
+	})
+
+})
+
 function clone(options:INumberLineOptions):INumberLineOptions{
 	const clone:INumberLineOptions={
 		pattern:options.pattern,
 		breakpointLowerbound:options.breakpointLowerbound,
 		breakpointUpperBound:options.breakpointUpperBound,
-		labelStrategy:options.labelStrategy
+		labelStrategy:options.labelStrategy,
+		scale:options.scale
 	}
 	return clone;
 }
\ No newline at end of file
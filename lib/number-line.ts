@@ -1,3 +1,16 @@
+import { NamedRegistry } from "./named-registry";
+import { IAnimationOptions, IAnimationTarget, NumberLineAnimation } from "./animation";
+import { timeIntervalFor, timeTicks } from "./time-scale";
+import { IScaleSegment, SegmentedScale } from "./segmented-scale";
+
+// modules of the package, reachable from its entry point
+export * from "./label-strategies";
+export * from "./numeric-adapters";
+export * from "./time-scale";
+export * from "./pan-zoom-controller";
+export * from "./number-plane";
+export * from "./view-model-builder";
+
 /** Configurational description of the number line */
 export interface INumberLineOptions {
 	/**
@@ -37,8 +50,184 @@ export interface INumberLineOptions {
 	 * @default 0 
 	 */
 	initialMagnification?: number;
+	/**
+	 * The scale used to map values to positions. In a logarithmic scale
+	 * unit values are counted in powers of {@link logBase}, so a unit value of 1
+	 * spans a whole decade. Values must be positive in a logarithmic scale.
+	 * In a time scale values are milliseconds since the unix epoch, mapped linearly, but tick marks
+	 * snap to calendar boundaries(seconds, minutes, hours, days, months and years) of
+	 * {@link timeZoneOffset}, at intervals close to the tick gap of the current zoom.
+	 * @default "linear"
+	 */
+	scale?: NumberLineScale;
+	/**
+	 * Base of the logarithm when {@link scale} is "log". Must be greater than 1.
+	 * @default 10
+	 */
+	logBase?: number;
+	/**
+	 * Offset of the time zone from UTC in minutes, like 330 for UTC+5:30, when {@link scale} is "time".
+	 * Calendar boundaries and labels by {@link timeLabels} are local to it.
+	 * @default 0
+	 */
+	timeZoneOffset?: number;
+	/**
+	 * Opt-in exact value mode. When specified, tick marks and the view model also carry
+	 * their values in the numeric type of this adapter(like BigInt or a decimal),
+	 * so that values beyond the precision of floating point numbers don't drift.
+	 * Only supported in a linear scale.
+	 */
+	numericAdapter?: INumericAdapter<unknown>;
+	/**
+	 * The curve that unit length and unit value follow as the magnification changes.
+	 * Use {@link NiceZoomStrategy} for unit values in a 1-2-5 sequence.
+	 * @default StaircaseZoomStrategy
+	 */
+	zoomStrategy?: IZoomStrategy;
+	/** Limits on panning and zooming, enforced by all pan and zoom operations */
+	constraints?: INumberLineConstraints;
+	/**
+	 * Length of the viewport in which the number line is rendered. Constraints
+	 * need it to know what is visible at the far end of the number line.
+	 * Without it only the start of the viewport(position 0) is constrained.
+	 */
+	viewportLength?: number;
+	/**
+	 * Direction in which the number line is laid out. It doesn't change any positions,
+	 * but tells renderers whether positions are along the x or the y axis.
+	 * @default "horizontal"
+	 */
+	orientation?: NumberLineOrientation;
+	/**
+	 * Makes positions grow in the opposite direction, from the far end of the viewport.
+	 * For example a vertical number line with values growing upwards on screen.
+	 * {@link positionOf} and {@link valueAt} need {@link viewportLength} for it,
+	 * while the view model uses the length it is built for.
+	 * @default false
+	 */
+	inverted?: boolean;
+	/**
+	 * Nested levels of tick marks, ordered from the most important, like a major tick every
+	 * 10 ticks, a mid tick every 5 and a minor tick at every tick. Each level must repeat at a
+	 * divisor of the previous level and the last level must include every tick.
+	 * If unspecified, levels are derived from the distinct heights in the pattern.
+	 */
+	levels?: ITickLevel[];
+	/**
+	 * Splits the values into segments with their own scales and a break between each of them,
+	 * for a broken axis that skips the empty ranges between outliers. Positions and values go
+	 * through the segments, and the view model gets a break marker for every break.
+	 * Only supported in a linear scale.
+	 */
+	segments?: IScaleSegment[];
+	/**
+	 * Length of every break between {@link segments}, in whatever unit is used for rendering.
+	 * It stays the same while zooming.
+	 * @default 16
+	 */
+	segmentGap?: number;
+}
+
+/** A level of importance of tick marks, see {@link INumberLineOptions.levels} */
+export interface ITickLevel {
+	/** Name of the level, like "major" or "minor" */
+	name: string;
+	/**
+	 * Number of ticks after which the level repeats, counted from the origin. In a logarithmic
+	 * scale levels repeat every unit, so only the tick marks within a unit are counted.
+	 */
+	every: number;
+	/** Height of the tick marks of this level, the height in the pattern if unspecified */
+	height?: number;
+	/**
+	 * Smallest spacing(in rendering units) between the tick marks of this level at which they should be shown
+	 * @default 4
+	 */
+	minSpacing?: number;
+}
+
+/** Limits on panning and zooming a number line */
+export interface INumberLineConstraints {
+	/** The smallest value that may be panned into view */
+	minValue?: number;
+	/** The biggest value that may be panned into view */
+	maxValue?: number;
+	/** The smallest magnification allowed */
+	minMagnification?: number;
+	/** The biggest magnification allowed */
+	maxMagnification?: number;
+	/**
+	 * A range of values as [start, end] that must always stay within the viewport.
+	 * Zooming that would push it out of the viewport is refused.
+	 */
+	keepVisible?: [number, number];
 }
 
+/** A point value highlighted on a number line, like the handle of a slider */
+export interface INumberLineMarker {
+	/** Identifies the marker among the markers of the number line */
+	id: string;
+	value: number;
+	/** A key renderers map to the look of the marker, like a CSS class */
+	style?: string;
+	label?: string;
+}
+
+/** An interval of values highlighted on a number line */
+export interface INumberLineRange {
+	/** Identifies the range among the ranges of the number line */
+	id: string;
+	/** The value where the range starts */
+	from: number;
+	/** The value where the range ends, not less than from */
+	to: number;
+	/** A key renderers map to the look of the range, like a CSS class */
+	style?: string;
+	label?: string;
+}
+
+/** The kinds of changes a number line notifies its listeners about */
+export type NumberLineChangeType = "pan" | "zoom" | "options" | "annotations";
+
+/** The state of a number line at a point in time */
+export interface NumberLineSnapshot {
+	magnification: number;
+	displacement: number;
+	unitLength: number;
+	unitValue: number;
+}
+
+/** Describes a change, or a batch of changes, of a number line */
+export interface NumberLineChangeEvent {
+	/** What changed, a batch can have several types of changes */
+	types: NumberLineChangeType[];
+	before: NumberLineSnapshot;
+	after: NumberLineSnapshot;
+	/** True if any of the changes had to be clamped by the constraints */
+	clamped: boolean;
+	numberLine: NumberLine;
+}
+
+export type NumberLineChangeListener = (event: NumberLineChangeEvent) => void;
+
+interface NumberLineSubscription {
+	listener: NumberLineChangeListener;
+	types?: NumberLineChangeType[];
+}
+
+interface PendingChange {
+	before: NumberLineSnapshot;
+	clamped: boolean;
+	optionsChanged: boolean;
+	annotationsChanged: boolean;
+}
+
+/** The kind of mapping between values and their positions */
+export type NumberLineScale = "linear" | "log" | "time";
+
+/** The axis along which a number line is laid out */
+export type NumberLineOrientation = "horizontal" | "vertical";
+
 
 /** 
  * A strechable, zoomable number line view model that can
@@ -51,29 +240,350 @@ export class NumberLine {
 	private _magnification: number;
 	private _displacement: number;
 	private _biggestTickPatternValue: number;
+	private _exactUnitValue: unknown;
+	private _subscriptions: NumberLineSubscription[] = [];
+	private _pendingChange: PendingChange = null;
+	private _options: INumberLineOptions;
+	private _levels: ITickLevel[];
+	private _markers = new Map<string, INumberLineMarker>();
+	private _ranges = new Map<string, INumberLineRange>();
+	private _segments: SegmentedScale;
 
-	
+	/** Label strategies that can be referenced by name in the serialized state */
+	static readonly labelStrategies = new NamedRegistry<ITickMarkLabelStrategy>("label strategy");
+	/** Zoom strategies, other than the built in ones, that can be referenced by name in the serialized state */
+	static readonly zoomStrategies = new NamedRegistry<IZoomStrategy>("zoom strategy");
+	/** Numeric adapters that can be referenced by name in the serialized state */
+	static readonly numericAdapters = new NamedRegistry<INumericAdapter<unknown>>("numeric adapter");
 
-	constructor(private options: INumberLineOptions) {
+	constructor(options: INumberLineOptions) {
+		this._options = options;
 		this.initialize();
 	}
 
 	private initialize() {
-		if (this.options.breakpointLowerbound > this.options.breakpointUpperBound) {
+		this.validate(this._options);
+		this._unitLength = this._options.breakpointLowerbound;
+		this._displacement = this._options.initialDisplacement || 0;
+		this.applyDefaults();
+		this.zoomTo(this._options.initialMagnification || 0);
+		this.panTo(this._options.initialDisplacement || 0);
+	}
+
+	private validate(options: INumberLineOptions) {
+		if (options.breakpointLowerbound > options.breakpointUpperBound) {
 			throw new Error("Breakpoint lower bound cannot be greater than breakpoint upper bound");
 		}
-		this._unitLength = this.options.breakpointLowerbound;
-		if(this.options.zoomPeriod<=0){
+		if(options.zoomPeriod<=0){
 			throw new Error("Zoom step cannot be negative or zero");
 		}
-		if(this.options.zoomFactor<=0){
+		if(options.zoomFactor<=0){
 			throw new Error("Zoom factor cannot be negative or zero");
 		}
-		this._biggestTickPatternValue = this.options.pattern.reduce((a, b) => Math.max(a, b), 0);
-		this.options.zoomPeriod = this.options.zoomPeriod || 10;
-		this.options.zoomFactor = this.options.zoomFactor || 1;
-		this.zoomTo(this.options.initialMagnification || 0);
-		this.panTo(this.options.initialDisplacement || 0);
+		if(options.logBase!=undefined && options.logBase<=1){
+			throw new Error("Log base must be greater than 1");
+		}
+		if(options.levels!=undefined && !areNestedLevels(options.levels)){
+			throw new Error("Tick levels must repeat at divisors of the previous level down to every tick");
+		}
+		if(options.inverted && options.viewportLength==undefined){
+			throw new Error("Inverted number lines need a viewport length");
+		}
+		if(options.numericAdapter!=null && options.scale!=undefined && options.scale!="linear"){
+			throw new Error("Exact values are only supported in a linear scale");
+		}
+		if(options.segments!=undefined){
+			const error = SegmentedScale.validate(options.segments);
+			if(error!=null){
+				throw new Error(error);
+			}
+			if((options.scale!=undefined && options.scale!="linear") || options.numericAdapter!=null){
+				throw new Error("Segments are only supported in a linear scale without exact values");
+			}
+		}
+		const constraints = options.constraints;
+		if(constraints!=null && constraints.minValue>constraints.maxValue){
+			throw new Error("Minimum value cannot be greater than maximum value");
+		}
+		if(constraints!=null && constraints.minMagnification>constraints.maxMagnification){
+			throw new Error("Minimum magnification cannot be greater than maximum magnification");
+		}
+	}
+
+	private applyDefaults() {
+		this._biggestTickPatternValue = this._options.pattern.reduce((a, b) => Math.max(a, b), 0);
+		this._options.zoomPeriod = this._options.zoomPeriod || 10;
+		this._options.zoomFactor = this._options.zoomFactor || 1;
+		this._options.scale = this._options.scale || "linear";
+		this._options.logBase = this._options.logBase || 10;
+		this._options.timeZoneOffset = this._options.timeZoneOffset || 0;
+		this._options.zoomStrategy = this._options.zoomStrategy || new StaircaseZoomStrategy();
+		this._options.orientation = this._options.orientation || "horizontal";
+		this._options.inverted = this._options.inverted || false;
+		// derived levels aren't stored in the options, so that they follow a change of the pattern
+		this._levels = this._options.levels || levelsOf(this._options.pattern);
+		this._options.segmentGap = this._options.segmentGap ?? 16;
+		this._segments = this._options.segments!=undefined ? new SegmentedScale(this._options.segments,this._options.segmentGap) : null;
+	}
+
+	/**
+	 * Changes some of the options after construction. The current magnification and displacement
+	 * are kept, but re-applied so that the zoom curve and the constraints of the new options take effect.
+	 * @param changes The options to change
+	 * @returns True if the magnification or the displacement had to be clamped by the new constraints
+	 */
+	updateOptions(changes: Partial<INumberLineOptions>):boolean {
+		const options = {...this._options,...changes};
+		this.validate(options);
+		return this.track(()=>{
+			this._options = options;
+			this.applyDefaults();
+			this._pendingChange.optionsChanged = true;
+			return this.zoomTo(this._magnification);
+		});
+	}
+
+	/**
+	 * Listens to changes of the number line. Changes made within a {@link batch} are notified once.
+	 * @param listener The function called after every change
+	 * @param types The types of changes to listen to, all of them if unspecified
+	 * @returns A function that unsubscribes the listener
+	 */
+	subscribe(listener: NumberLineChangeListener, types?: NumberLineChangeType[]):()=>void {
+		this._subscriptions.push({listener:listener,types:types});
+		return ()=>this.unsubscribe(listener);
+	}
+
+	/**
+	 * Stops notifying a listener added by {@link subscribe}
+	 * @param listener The listener to remove
+	 */
+	unsubscribe(listener: NumberLineChangeListener) {
+		this._subscriptions = this._subscriptions.filter(subscription=>subscription.listener!=listener);
+	}
+
+	/**
+	 * Runs several mutations and notifies the listeners once, with the state before the first
+	 * mutation and after the last one. Batches can be nested, only the outermost one notifies.
+	 * @param mutations A function that pans, zooms or updates the options of the number line
+	 */
+	batch(mutations: ()=>void) {
+		const outermost = this._pendingChange==null;
+		if(outermost){
+			this._pendingChange = {before:this.snapshot(),clamped:false,optionsChanged:false,annotationsChanged:false};
+		}
+		try{
+			mutations();
+		}
+		finally{
+			if(outermost){
+				const change = this._pendingChange;
+				this._pendingChange = null;
+				this.notify(change);
+			}
+		}
+	}
+
+	/**
+	 * Adds a marker, or replaces the marker with the same id. The view model resolves
+	 * markers to positions and tells the direction of the ones out of view.
+	 * @param marker The marker, copied so that changing it afterwards has no effect
+	 */
+	setMarker(marker: INumberLineMarker) {
+		this.batch(()=>{
+			this._markers.set(marker.id,{...marker});
+			this._pendingChange.annotationsChanged = true;
+		});
+	}
+
+	/**
+	 * Removes the marker with the given id
+	 * @returns False if there was no such marker
+	 */
+	removeMarker(id: string):boolean {
+		let removed = false;
+		this.batch(()=>{
+			removed = this._markers.delete(id);
+			this._pendingChange.annotationsChanged = removed;
+		});
+		return removed;
+	}
+
+	/** The markers in the order they were first added */
+	get markers():readonly Readonly<INumberLineMarker>[]{
+		return [...this._markers.values()];
+	}
+
+	/**
+	 * Adds a highlighted range, or replaces the range with the same id. The view model
+	 * resolves ranges to positions clipped to its window.
+	 * @param range The range, copied so that changing it afterwards has no effect
+	 */
+	setRange(range: INumberLineRange) {
+		if(range.from>range.to){
+			throw new Error("Ranges must not end before they start");
+		}
+		this.batch(()=>{
+			this._ranges.set(range.id,{...range});
+			this._pendingChange.annotationsChanged = true;
+		});
+	}
+
+	/**
+	 * Removes the range with the given id
+	 * @returns False if there was no such range
+	 */
+	removeRange(id: string):boolean {
+		let removed = false;
+		this.batch(()=>{
+			removed = this._ranges.delete(id);
+			this._pendingChange.annotationsChanged = removed;
+		});
+		return removed;
+	}
+
+	/** The highlighted ranges in the order they were first added */
+	get ranges():readonly Readonly<INumberLineRange>[]{
+		return [...this._ranges.values()];
+	}
+
+	/** The options of the number line, with defaults filled in. Use {@link updateOptions} to change them. */
+	get options():Readonly<INumberLineOptions>{
+		return this._options;
+	}
+
+	/**
+	 * Serializes the magnification, displacement, options, markers and ranges of the number line.
+	 * The label strategy, numeric adapter and custom zoom strategies are stored by the name
+	 * they are registered with(see {@link NumberLine.labelStrategies}). Unregistered ones are stored
+	 * as null, so they have to be passed again as overrides when restoring.
+	 * @returns A plain object that can be passed to JSON.stringify
+	 */
+	toJSON():NumberLineJSON{
+		const options = this._options;
+		return {
+			version:NUMBER_LINE_JSON_VERSION,
+			magnification:this._magnification,
+			displacement:this._displacement,
+			options:{
+				pattern:[...options.pattern],
+				breakpointLowerbound:options.breakpointLowerbound,
+				breakpointUpperBound:options.breakpointUpperBound,
+				zoomPeriod:options.zoomPeriod,
+				zoomFactor:options.zoomFactor,
+				scale:options.scale,
+				logBase:options.logBase,
+				timeZoneOffset:options.timeZoneOffset,
+				labelStrategy:options.labelStrategy==null ? null : NumberLine.labelStrategies.nameOf(options.labelStrategy),
+				zoomStrategy:zoomStrategyToJSON(options.zoomStrategy),
+				numericAdapter:options.numericAdapter==null ? null : NumberLine.numericAdapters.nameOf(options.numericAdapter),
+				constraints:options.constraints==null ? undefined : copyConstraints(options.constraints),
+				viewportLength:options.viewportLength,
+				levels:options.levels==null ? undefined : options.levels.map(level=>({...level})),
+				orientation:options.orientation,
+				inverted:options.inverted,
+				segments:options.segments==null ? undefined : options.segments.map(segment=>({...segment})),
+				segmentGap:options.segmentGap
+			},
+			markers:this.markers.map(marker=>({...marker})),
+			ranges:this.ranges.map(range=>({...range}))
+		};
+	}
+
+	/**
+	 * Restores a number line serialized by {@link toJSON}
+	 * @param json The serialized state, parsed if it is a string
+	 * @param overrides Options to use instead of the serialized ones, like unregistered strategies.
+	 * Strategies and adapters stored as null without an override are left out, so the defaults are used.
+	 * @returns A new number line with the serialized magnification, displacement, options, markers and ranges
+	 */
+	static fromJSON(json:NumberLineJSON|string,overrides:Partial<INumberLineOptions> = {}):NumberLine{
+		const state:NumberLineJSON = typeof json=="string" ? JSON.parse(json) : json;
+		if(state==null || state.version!=NUMBER_LINE_JSON_VERSION){
+			throw new Error(`Unsupported number line state version: ${state?.version}`);
+		}
+		const options = state.options;
+		const numberLine = new NumberLine({
+			pattern:[...options.pattern],
+			breakpointLowerbound:options.breakpointLowerbound,
+			breakpointUpperBound:options.breakpointUpperBound,
+			zoomPeriod:options.zoomPeriod,
+			zoomFactor:options.zoomFactor,
+			scale:options.scale,
+			logBase:options.logBase,
+			timeZoneOffset:options.timeZoneOffset,
+			// registered names are only looked up when they aren't overridden
+			labelStrategy:options.labelStrategy==null || "labelStrategy" in overrides ? null : NumberLine.labelStrategies.get(options.labelStrategy),
+			zoomStrategy:options.zoomStrategy==null || "zoomStrategy" in overrides ? undefined : zoomStrategyFromJSON(options.zoomStrategy),
+			numericAdapter:options.numericAdapter==null || "numericAdapter" in overrides ? undefined : NumberLine.numericAdapters.get(options.numericAdapter),
+			constraints:options.constraints==null ? undefined : copyConstraints(options.constraints),
+			viewportLength:options.viewportLength,
+			levels:options.levels==null ? undefined : options.levels.map(level=>({...level})),
+			orientation:options.orientation,
+			inverted:options.inverted,
+			segments:options.segments==null ? undefined : options.segments.map(segment=>({...segment})),
+			segmentGap:options.segmentGap,
+			initialMagnification:state.magnification,
+			initialDisplacement:state.displacement,
+			...overrides
+		});
+		// states written before annotations existed have none
+		(state.markers ?? []).forEach(marker=>numberLine.setMarker(marker));
+		(state.ranges ?? []).forEach(range=>numberLine.setRange(range));
+		return numberLine;
+	}
+
+	/** The current magnification, displacement, unit length and unit value */
+	snapshot():NumberLineSnapshot {
+		return {
+			magnification:this._magnification,
+			displacement:this._displacement,
+			unitLength:this._unitLength,
+			unitValue:this._unitValue
+		};
+	}
+
+	/** Runs a mutation in a batch, recording whether it was clamped */
+	private track(mutation: ()=>boolean):boolean {
+		let clamped = false;
+		this.batch(()=>{
+			clamped = mutation();
+			this._pendingChange.clamped = this._pendingChange.clamped || clamped;
+		});
+		return clamped;
+	}
+
+	private notify(change: PendingChange) {
+		const after = this.snapshot();
+		const types:NumberLineChangeType[] = [];
+		if(change.before.displacement!=after.displacement){
+			types.push("pan");
+		}
+		if(change.before.magnification!=after.magnification || change.before.unitLength!=after.unitLength || change.before.unitValue!=after.unitValue){
+			types.push("zoom");
+		}
+		if(change.optionsChanged){
+			types.push("options");
+		}
+		if(change.annotationsChanged){
+			types.push("annotations");
+		}
+		if(types.length==0){
+			return;
+		}
+		const event:NumberLineChangeEvent = {
+			types:types,
+			before:change.before,
+			after:after,
+			clamped:change.clamped,
+			numberLine:this
+		};
+		// copied so that listeners can unsubscribe while being notified
+		for(const subscription of [...this._subscriptions]){
+			if(subscription.types==undefined || subscription.types.some(type=>types.includes(type))){
+				subscription.listener(event);
+			}
+		}
 	}
 
 	get biggestTickPatternValue():number{
@@ -94,34 +604,92 @@ export class NumberLine {
 	}
 
 	get lowerBoundUnitLength(): number {
-		return this.options.breakpointLowerbound;
+		return this._options.breakpointLowerbound;
 	}
 
 	get upperBoundUnitLength(): number {
-		return this.options.breakpointUpperBound;
+		return this._options.breakpointUpperBound;
 	}
 
 	get zoomPeriod():number{
-		return this.options.zoomPeriod;
+		return this._options.zoomPeriod;
 	}
 
 	get zoomFactor():number{
-		return this.options.zoomFactor;
+		return this._options.zoomFactor;
 	}
 
-	
+	get scale():NumberLineScale{
+		return this._options.scale;
+	}
+
+	get logBase():number{
+		return this._options.logBase;
+	}
+
+	get timeZoneOffset():number{
+		return this._options.timeZoneOffset;
+	}
+
+	get orientation():NumberLineOrientation{
+		return this._options.orientation;
+	}
+
+	get inverted():boolean{
+		return this._options.inverted;
+	}
+
+	/** Levels of tick marks as specified in the options or derived from the pattern */
+	get levels():readonly ITickLevel[]{
+		return this._levels;
+	}
+
+	get zoomStrategy():IZoomStrategy{
+		return this._options.zoomStrategy;
+	}
+
+	get numericAdapter():INumericAdapter<unknown>{
+		return this._options.numericAdapter;
+	}
+
+	/** The unit value in the numeric type of the numeric adapter, null if there isn't one */
+	get exactUnitValue():unknown{
+		return this._exactUnitValue;
+	}
+
+	get constraints():INumberLineConstraints{
+		return this._options.constraints;
+	}
+
+	get viewportLength():number{
+		return this._options.viewportLength;
+	}
+
+	/** Updates the viewport length, panning the number line back within its constraints if needed */
+	set viewportLength(length:number){
+		this.track(()=>{
+			// replaced like in updateOptions, so the options passed in aren't changed
+			this._options = {...this._options,viewportLength:length};
+			this._pendingChange.optionsChanged = true;
+			return this.panTo(this._displacement);
+		});
+	}
 
 
 	/**
 	 * Zooms the number line to the specified magnification
 	 *
 	 * @param {number} magnification - the magnification level
-	 * @return {void} 
+	 * @return {boolean} True if the magnification or the displacement had to be clamped by the constraints
 	 */
-	zoomTo(magnification: number):void {
-		this._magnification = magnification;
-		this._unitLength = sawtooth(magnification, this.options.breakpointLowerbound, this.options.breakpointUpperBound, this.options.zoomPeriod);
-		this._unitValue = staircase(magnification, this.options.zoomFactor, this.options.zoomPeriod);
+	zoomTo(magnification: number):boolean {
+		return this.track(()=>{
+			const allowedMagnification = this.constrainMagnification(magnification);
+			this.applyMagnification(allowedMagnification);
+			// a different scale can bring values beyond the bounds into view
+			const panClamped = this.panTo(this._displacement);
+			return allowedMagnification!=magnification || panClamped;
+		});
 	}
 
     /**
@@ -131,46 +699,160 @@ export class NumberLine {
      * @param {number} position - The position to zoom around. This position will be frozen throughout the zoom. As obtained from the event.
      * @param {number} by - The delta amount to zoom by. Large numbers might cause erreneous big jumps that are undesirable.
 	 * Consider multiplying by a limiting factor (like 0.001) to prevent this.
+	 * @returns True if the zoom or the pan had to be clamped by the constraints
      */
-	zoomAround(position: number, by: number) {
-		const originalDisplacement = this.displacement;
-		const valueAtHingePoint = this.valueAt(position);
-		this.panTo(0);
-		this.zoomTo(this.magnification + by);
-		const newPositionForHingePoint = this.positionOf(valueAtHingePoint);
-		const shift = newPositionForHingePoint - position;
-		// const newDisplacement = originalDisplacement + shift;
-		const newDisplacement = shift;
-		
-		this.panTo(newDisplacement);
+	zoomAround(position: number, by: number):boolean {
+		return this.track(()=>{
+			const naturalPosition = this.toNaturalPosition(position);
+			const valueAtHingePoint = this.naturalValueAt(naturalPosition);
+			const requestedMagnification = this.magnification + by;
+			const allowedMagnification = this.constrainMagnification(requestedMagnification);
+			this.applyMagnification(allowedMagnification);
+			// shift the number line so that the hinge value is back at the position
+			const newDisplacement = this.naturalPositionOf(valueAtHingePoint) + this._displacement - naturalPosition;
+			const panClamped = this.panTo(newDisplacement);
+			return allowedMagnification!=requestedMagnification || panClamped;
+		});
 	}
 
 	/**
 	 * Simply sets the displacement of the number line
 	 * to the specified position.
 	 * @param {number} position - The position to pan to.
+	 * @param {boolean} constrained - Whether to clamp the displacement within constraints. Skipping it
+	 * is useful for effects like rubber banding, the next constrained operation will clamp it back.
+	 * @returns True if the displacement had to be clamped by the constraints
 	 */
-	panTo(position: number) {
-		this._displacement = position;
+	panTo(position: number, constrained = true):boolean {
+		return this.track(()=>{
+			const allowedPosition = constrained ? this.constrainDisplacement(position) : position;
+			this._displacement = allowedPosition;
+			return allowedPosition!=position;
+		});
 	}
 
 	/**
 	 * Increases/Decreases the displacement by the given delta.
 	 * @param {number} delta - The amount to increase the displacement by.
+	 * @param {boolean} constrained - Whether to clamp the displacement within constraints
+	 * @returns True if the displacement had to be clamped by the constraints
 	 */
-	panBy(delta:number){
-		this._displacement += delta;
+	panBy(delta:number, constrained = true):boolean{
+		return this.panTo(this._displacement + delta,constrained);
+	}
+
+	/**
+	 * Animates the magnification and displacement towards a target, keeping the value that sits
+	 * at the same position at both ends fixed. Listeners are notified once per frame.
+	 * @param target The magnification and/or displacement to animate to
+	 * @param options Duration, easing and the clock driving the frames
+	 * @returns The running animation, that can be cancelled or awaited
+	 */
+	animateTo(target:IAnimationTarget,options?:IAnimationOptions):NumberLineAnimation{
+		return new NumberLineAnimation(this,target,options);
+	}
+
+	/**
+	 * Clamps a value within the minimum and maximum values of the constraints
+	 * @param value The value to clamp
+	 * @returns The value limited to the constrained domain
+	 */
+	clampValue(value:number):number{
+		const constraints = this._options.constraints;
+		if(constraints==null){
+			return value;
+		}
+		return clamp(value,constraints.minValue ?? -Infinity,constraints.maxValue ?? Infinity);
+	}
+
+	/**
+	 * The range of displacements allowed by the constraints at the current magnification.
+	 * When the constraints can't all be satisfied, both ends are the displacement that centers them.
+	 * @returns A tuple of the lowest and the highest displacement
+	 */
+	displacementBounds():[number,number]{
+		const constraints = this._options.constraints;
+		if(constraints==null){
+			return [-Infinity,Infinity];
+		}
+		const ratio = this._unitLength/this._unitValue;
+		const viewportLength = this._options.viewportLength ?? 0;
+		let lowest = constraints.minValue!=undefined ? this.displacementOf(constraints.minValue,ratio) : -Infinity;
+		let highest = constraints.maxValue!=undefined ? this.displacementOf(constraints.maxValue,ratio) - viewportLength : Infinity;
+		if(constraints.keepVisible!=undefined){
+			highest = Math.min(highest,this.displacementOf(constraints.keepVisible[0],ratio));
+			lowest = Math.max(lowest,this.displacementOf(constraints.keepVisible[1],ratio) - viewportLength);
+		}
+		if(lowest>highest){
+			const center = (lowest + highest)/2;
+			return [center,center];
+		}
+		return [lowest,highest];
+	}
+
+	private constrainDisplacement(displacement:number):number{
+		const [lowest,highest] = this.displacementBounds();
+		// bounds are computed in floating point, so don't nudge displacements that are only off by rounding errors
+		const tolerance = FIT_TOLERANCE * Math.max(1,Math.abs(displacement));
+		if(displacement>=lowest - tolerance && displacement<=highest + tolerance){
+			return displacement;
+		}
+		return clamp(displacement,lowest,highest);
+	}
+
+	private constrainMagnification(magnification:number):number{
+		const constraints = this._options.constraints;
+		if(constraints==null){
+			return magnification;
+		}
+		const allowed = clamp(magnification,constraints.minMagnification ?? -Infinity,constraints.maxMagnification ?? Infinity);
+		const keepVisible = constraints.keepVisible;
+		if(keepVisible!=undefined && this._options.viewportLength!=undefined && this._magnification!=undefined){
+			const ratio = this.zoomStrategy.unitLengthAt(allowed,this)/this.zoomStrategy.unitValueAt(allowed,this);
+			const keptLength = Math.abs(this.displacementOf(keepVisible[1],ratio) - this.displacementOf(keepVisible[0],ratio));
+			if(keptLength>this._options.viewportLength){
+				return this._magnification;
+			}
+		}
+		return allowed;
+	}
+
+	private applyMagnification(magnification:number){
+		this._magnification = magnification;
+		this._unitLength = this.zoomStrategy.unitLengthAt(magnification,this);
+		this._unitValue = this.zoomStrategy.unitValueAt(magnification,this);
+		this._exactUnitValue = this._options.numericAdapter!=null ? this._options.numericAdapter.fromNumber(this._unitValue) : null;
 	}
 
 	/**
 	 * Position of the given value in the number line in 
-	 * whatever unit is used for rendering(most commonly pixels)
+	 * whatever unit is used for rendering(most commonly pixels).
+	 * Inverted number lines measure it from the far end of the viewport.
+	 * This is the inverse of {@link valueAt}, so the displacement is subtracted: panning by a positive
+	 * displacement moves every value towards the start. Earlier versions added the displacement instead.
 	*
 	 * @param {number} value - Value on the number line
 	 * @return {number} description of return value
 	 */
 	positionOf(value:number):number{
-		return this._displacement + (this._unitLength/this._unitValue) * value;
+		return this.toNaturalPosition(this.naturalPositionOf(value));
+	}
+
+	/**
+	 * Converts between a position along the direction of the number line and the position
+	 * from its natural start(where values grow along with positions). This is the same
+	 * position unless the number line is inverted.
+	 * @param position The position to convert
+	 */
+	toNaturalPosition(position:number):number{
+		return this._options.inverted ? this._options.viewportLength - position : position;
+	}
+
+	private naturalPositionOf(value:number):number{
+		if(this._segments!=null){
+			return this._segments.positionOf(value,this._unitLength/this._unitValue,this._displacement);
+		}
+		return (this._unitLength/this._unitValue) * this.toLinear(value) - this._displacement;
 	}
 
 	/**
@@ -178,15 +860,133 @@ export class NumberLine {
 	 * @param {number} position - The position at which to calculate the value.
 	 */
 	valueAt(position:number):number{
-		return (position + this._displacement) / (this._unitLength/this._unitValue);
+		return this.naturalValueAt(this.toNaturalPosition(position));
+	}
+
+	private naturalValueAt(position:number):number{
+		if(this._segments!=null){
+			return this._segments.valueAt(position,this._unitLength/this._unitValue,this._displacement);
+		}
+		return this.fromLinear((position + this._displacement) / (this._unitLength/this._unitValue));
+	}
+
+	/**
+	 * Exact counterpart of {@link positionOf} for values in the numeric type of the numeric adapter.
+	 * The value is first divided by the unit value in the numeric type itself,
+	 * so that only the resulting count of units is subject to floating point precision.
+	 * @param value Value on the number line in the numeric type of the numeric adapter
+	 * @returns The position of the value
+	 */
+	positionOfExact(value:unknown):number{
+		const adapter = this.requireNumericAdapter();
+		const [wholeUnits, remainder] = this.splitDisplacement();
+		const units = adapter.ratio(adapter.add(value,adapter.multiply(this._exactUnitValue,-wholeUnits)),this._exactUnitValue);
+		return this.toNaturalPosition(units * this._unitLength - remainder);
+	}
+
+	/**
+	 * Exact counterpart of {@link valueAt}. The whole units till the position are counted
+	 * in the numeric type of the numeric adapter, and only the remaining fraction of a unit
+	 * is converted from a floating point number.
+	 * @param position The position at which to calculate the value.
+	 * @returns The value in the numeric type of the numeric adapter
+	 */
+	exactValueAt(position:number):unknown{
+		return this.naturalExactValueAt(this.toNaturalPosition(position));
+	}
+
+	private naturalExactValueAt(position:number):unknown{
+		const adapter = this.requireNumericAdapter();
+		const [displacementUnits, remainder] = this.splitDisplacement();
+		const units = (position + remainder)/this._unitLength;
+		const wholeUnits = Math.floor(units);
+		const fraction = (units - wholeUnits) * this._unitValue;
+		const whole = adapter.add(adapter.multiply(this._exactUnitValue,displacementUnits),adapter.multiply(this._exactUnitValue,wholeUnits));
+		return adapter.add(whole,adapter.fromNumber(fraction));
+	}
+
+	/**
+	 * Splits the displacement into whole units and the length left over, so that exact values far from
+	 * the origin can be counted in the numeric type from the whole units, without adding small positions
+	 * to a huge displacement in floating point numbers
+	 */
+	private splitDisplacement():[number, number]{
+		const wholeUnits = Math.floor(this._displacement/this._unitLength);
+		return [wholeUnits, this._displacement - wholeUnits*this._unitLength];
+	}
+
+	private requireNumericAdapter():INumericAdapter<unknown>{
+		if(this._options.numericAdapter==null){
+			throw new Error("Exact values require a numeric adapter in the options");
+		}
+		return this._options.numericAdapter;
 	}
 
 	/**
-	 * Returns a value that represents the current scaled amount on the number line
+	 * Returns a value that represents the current scaled amount on the number line.
+	 * In a logarithmic scale this is the factor between the values at both ends of the length.
 	 * @param length Length of the number line in whatever unit is used for rendering it(most likely in pixels)
 	 */
 	measure(length:number):number{
-		return this._unitValue/this._unitLength * length;
+		const linearMeasure = this._unitValue/this._unitLength * length;
+		return this._options.scale=="log" ? Math.pow(this.logBase, linearMeasure) : linearMeasure;
+	}
+
+	/**
+	 * The displacement at which a value sits at the start of the number line, which is ratio * value
+	 * in the linear space plus the breaks before the value when there are segments
+	 * @param value Value on the number line
+	 * @param ratio Unit length per unit value, of the current magnification or of one being computed
+	 */
+	private displacementOf(value:number, ratio:number):number{
+		if(this._segments!=null){
+			return this._segments.positionOf(value,ratio,0);
+		}
+		return ratio * this.toLinear(value);
+	}
+
+	/**
+	 * Length taken by the breaks between 2 values, which doesn't change with the magnification
+	 * @param start The smaller value
+	 * @param end The bigger value
+	 */
+	private breakLengthBetween(start:number, end:number):number{
+		if(this._segments==null){
+			return 0;
+		}
+		return this._segments.gap * (this._segments.breaksBefore(end) - this._segments.breaksBefore(start));
+	}
+
+	/**
+	 * Converts a value into the linear space in which unit values are counted.
+	 * This is the exponent of the value for a logarithmic scale. With segments, it is the coordinate
+	 * of the value within the segments, which leaves out the breaks between them.
+	 * @param value Value on the number line
+	 */
+	private toLinear(value:number):number{
+		if(this._segments!=null){
+			return this._segments.toCoordinate(value);
+		}
+		if(this._options.scale!="log"){
+			return value;
+		}
+		switch(this.logBase){
+			case 10: return Math.log10(value);
+			case 2: return Math.log2(value);
+			default: return Math.log(value)/Math.log(this.logBase);
+		}
+	}
+
+	/**
+	 * Converts a coordinate of the linear space back into a value.
+	 * Reverse of {@link toLinear}.
+	 * @param coordinate Coordinate in the linear space
+	 */
+	private fromLinear(coordinate:number):number{
+		if(this._segments!=null){
+			return this._segments.fromCoordinate(coordinate);
+		}
+		return this._options.scale=="log" ? Math.pow(this.logBase, coordinate) : coordinate;
 	}
 
 	get smallestPossibleUnitValue():number{
@@ -208,13 +1008,18 @@ export class NumberLine {
 			end = start;
 			start = temp;
 		}
+		const breakLength = this.breakLengthBetween(start,end);
+		start = this.toLinear(start);
+		end = this.toLinear(end);
 		const targetUnitLength = forUnitLength==undefined ? this.lowerBoundUnitLength : clamp(forUnitLength,this.lowerBoundUnitLength,this.upperBoundUnitLength);
 		const rangeMeasure = end - start;
-		// find the ratio of unit value to unit length
-		const ratio = rangeMeasure/length;
-		// we know the lower and upper bounds of unit length
-		const lowerUnitValue = ratio * targetUnitLength;
-		return lowerUnitValue % this.zoomFactor == 0;
+		if(!(rangeMeasure>0) || !(length - breakLength>0)){
+			// an empty range never spans a length, and zoom strategies may reject it
+			return false;
+		}
+		const magnification = this.zoomStrategy.magnificationFor(rangeMeasure,length - breakLength,this,targetUnitLength);
+		const fitLength = rangeMeasure * this.zoomStrategy.unitLengthAt(magnification,this)/this.zoomStrategy.unitValueAt(magnification,this) + breakLength;
+		return Math.abs(fitLength - length) <= length * FIT_TOLERANCE;
 	}
 
 	/**
@@ -224,14 +1029,16 @@ export class NumberLine {
 	 * it is impossible to mathmatically fit a range in a given length, 
 	 * if resulting unit value is not perfectly a multiple of zoom factor.
 	 * Nevertheless this algorithm will return the next best zoom and pan that best contains the range in the given length.
+	 * The magnification itself is found by the {@link IZoomStrategy} of this number line.
 	 * You can also check if the range is fittable using {@link isRangeFittable } method.
+	 * In a logarithmic scale the range is fit by the exponents of its values.
 	 * @param start The starting value
 	 * @param end The ending value
 	 * @param length The length within which the range fits
 	 * @param forUnitLength The unit length clamped within bounds for which the range should fit. 
 	 * If unspecified, lowerbound will be used.
 	 * @returns A tuple containing magnification and displacement that can be used to zoom and pan the number line. 
-	 * You can either do it immediately or you can animate it in your UI ;-).
+	 * You can either do it immediately or animate it with {@link animateTo}.
 	 */
 	rangeFit(start:number,end:number,length:number,forUnitLength?:number):[number,number]{
 		if(end<start){
@@ -239,112 +1046,800 @@ export class NumberLine {
 			end = start;
 			start = temp;
 		}
+		// breaks between segments take a fixed length, only the rest scales with the magnification
+		const breakLength = this.breakLengthBetween(start,end);
 		const targetUnitLength = forUnitLength==undefined ? this.lowerBoundUnitLength : clamp(forUnitLength,this.lowerBoundUnitLength,this.upperBoundUnitLength);
-		const rangeMeasure = end - start;
-		// find the ratio of unit value to unit length
-		const ratio = rangeMeasure/length;
-		// we know the lower and upper bounds of unit length
-		const lowerUnitValue = ratio * targetUnitLength;
-		// const divisibleByZoomFactor = nextDivisibleValue(lowerUnitValue,this.zoomFactor);
-		const divisibleByZoomFactor = lowerUnitValue % this.zoomFactor == 0 ?
-		previousDivisibleValue(lowerUnitValue,this.zoomFactor) :
-		nextDivisibleValue(lowerUnitValue,this.zoomFactor);
-		const magnificationBase = ((divisibleByZoomFactor/this.zoomFactor)-1) * this.zoomPeriod;
-		const magnificationOffset = this.zoomPeriod * (targetUnitLength - this.lowerBoundUnitLength)/(this.upperBoundUnitLength-this.lowerBoundUnitLength);
-		const magnification = magnificationBase + magnificationOffset;
+		const rangeMeasure = this.toLinear(end) - this.toLinear(start);
+		const magnification = this.zoomStrategy.magnificationFor(rangeMeasure,length - breakLength,this,targetUnitLength);
 		// we can't use positionOf method because, the changes haven't been applied to the number line yet
 		// const displacement = this.positionOf(start);
 		// therefore we calculate it inline here manually
-		// position = displacement + (unitLength/unitValue) * starting value;
-		// find the unit value obtained from the given magnification
-		const derivedUnitValue = staircase(magnification, this.zoomFactor, this.zoomPeriod);
-		const displacement = targetUnitLength/derivedUnitValue * start;
+		// position = (unitLength/unitValue) * starting value - displacement;
+		// find the unit length and unit value obtained from the given magnification
+		const derivedUnitLength = this.zoomStrategy.unitLengthAt(magnification,this);
+		const derivedUnitValue = this.zoomStrategy.unitValueAt(magnification,this);
+		const displacement = this.displacementOf(start,derivedUnitLength/derivedUnitValue);
 		return [magnification,displacement];
 		
 	}
 
+	/**
+	 * Computes the magnification and displacement that put the start of a range exactly at the start of
+	 * a length and its end exactly at the end, leaving the given padding on either side.
+	 * Unlike {@link rangeFit}, unit length is free to take any value within the breakpoints, so whether the fit is exact
+	 * only depends on the zoom curve. With {@link NiceZoomStrategy} it always is, with {@link StaircaseZoomStrategy} it is
+	 * whenever a multiple of the zoom factor can be reached within the breakpoints. Otherwise the range is contained.
+	 * This method does not alter the current pan or zoom configurations, use {@link fitTo} for that.
+	 * @param start The starting value
+	 * @param end The ending value
+	 * @param length The length within which the range fits
+	 * @param options Padding and tolerance of the fit
+	 * @returns The magnification and displacement along with how far off the fit is
+	 * @throws If the range is empty, as no magnification can make it span the length
+	 */
+	fit(start:number,end:number,length:number,options:IRangeFitOptions={}):RangeFitResult{
+		const padding = options.padding ?? 0;
+		const [paddingStart,paddingEnd] = typeof padding=="number" ? [padding,padding] : padding;
+		const tolerance = options.tolerance ?? 1e-6;
+		const availableLength = length - paddingStart - paddingEnd;
+		if(availableLength<=0){
+			throw new Error("Padding leaves no length to fit the range in");
+		}
+		if(end<start){
+			const temp = end;
+			end = start;
+			start = temp;
+		}
+		const measure = this.toLinear(end) - this.toLinear(start);
+		if(!(measure>0)){
+			throw new Error("The range to fit must not be empty");
+		}
+		// breaks between segments take a fixed length, only the rest scales with the magnification
+		const breakLength = this.breakLengthBetween(start,end);
+		if(availableLength - breakLength<=0){
+			throw new Error("Breaks leave no length to fit the range in");
+		}
+		const magnification = this.zoomStrategy.magnificationFor(measure,availableLength - breakLength,this);
+		const scale = this.zoomStrategy.unitLengthAt(magnification,this)/this.zoomStrategy.unitValueAt(magnification,this);
+		const residual = Math.abs(scale * measure + breakLength - availableLength);
+		return {
+			magnification:magnification,
+			displacement:this.displacementOf(start,scale) - paddingStart,
+			residual:residual,
+			fitted:residual<=tolerance
+		}
+	}
+
+	/**
+	 * Same as {@link fit}, but also zooms and pans the number line to the result
+	 * @param start The starting value
+	 * @param end The ending value
+	 * @param length The length within which the range fits
+	 * @param options Padding and tolerance of the fit
+	 * @returns The applied magnification and displacement along with how far off the fit is
+	 */
+	fitTo(start:number,end:number,length:number,options?:IRangeFitOptions):RangeFitResult{
+		const result = this.fit(start,end,length,options);
+		this.batch(()=>{
+			this.zoomTo(result.magnification);
+			this.panTo(result.displacement);
+		});
+		return result;
+	}
+
 	/** Number of tick marks in a unit */
 	get tickCount():number{
-		return this.options.pattern.length;
+		return this._options.pattern.length;
 	} 
 
 	/** 
 	 * Builds a view model describing this number line 
+	 * @param length Length of the number line in whatever unit is used for rendering it
+	 * @param options Extra passes over the view model, like laying out labels or overscanning
 	 * @returns A view model useful for rendering this number line
 	 * through any rendering technology or format
 	 */
-	buildViewModel(length: number): NumberLineViewModel {
+	buildViewModel(length: number, options: IBuildViewModelOptions = {}): NumberLineViewModel {
+		const overscan = this.overscanOf(options);
+		return this.buildViewModelWithin(-overscan,length + overscan,length,options);
+	}
+
+	/**
+	 * Builds a view model for any window of positions, even beyond the viewport, so that renderers
+	 * can tile and cache segments of the number line. Positions are measured from the start of the
+	 * viewport like those of {@link positionOf}, so an inverted number line needs a {@link viewportLength}.
+	 * @param from Position where the window starts
+	 * @param to Position where the window ends, greater than from
+	 * @param options Extra passes over the view model, overscan extends the window on both sides
+	 * @returns A view model of the tick marks within the window
+	 */
+	buildViewModelRange(from: number, to: number, options: IBuildViewModelOptions = {}): NumberLineViewModel {
+		if(from>to){
+			throw new Error("The window must not end before it starts");
+		}
+		const overscan = this.overscanOf(options);
+		return this.buildViewModelWithin(from - overscan,to + overscan,this._options.viewportLength,options);
+	}
+
+	private overscanOf(options: IBuildViewModelOptions):number{
+		return (options.overscan ?? 0) + (options.overscanUnits ?? 0)*this._unitLength;
+	}
+
+	/**
+	 * @param start Position where the view model starts
+	 * @param end Position where the view model ends
+	 * @param length Length within which positions of an inverted number line are flipped
+	 */
+	private buildViewModelWithin(start: number, end: number, length: number, options: IBuildViewModelOptions): NumberLineViewModel {
+		// the window in natural positions, which grow along with the values
+		const from = this.orient(this._options.inverted ? end : start,length);
+		const to = this.orient(this._options.inverted ? start : end,length);
+		let viewModel:NumberLineViewModel;
+		switch(this._options.scale){
+			case "log":
+				viewModel = this.buildLogViewModel(from,to,length,options.cache);
+				break;
+			case "time":
+				viewModel = this.buildTimeViewModel(from,to,length,options.cache);
+				break;
+			default:
+				viewModel = this._segments!=null ? this.buildSegmentedViewModel(from,to,length,options.cache) : this.buildLinearViewModel(from,to,length,options.cache);
+		}
+		if(options.labelLayout!=undefined){
+			layoutLabels(viewModel.tickMarks,options.labelLayout);
+		}
+		viewModel.markers = this.markers.map(marker=>this.createMarker(marker,viewModel,length));
+		viewModel.ranges = this.ranges.map(range=>this.createRange(range,viewModel,length));
+		return viewModel;
+	}
+
+	/** Resolves a marker to its position, clipped to the view model, and its direction when it is out of view */
+	private createMarker(marker:INumberLineMarker, viewModel:NumberLineViewModel, length:number):MarkerViewModel{
+		const position = this.orient(this.naturalPositionOf(marker.value),length);
+		const offscreen = position<viewModel.start ? "start" : position>viewModel.end ? "end" : null;
+		return {
+			id:marker.id,
+			value:marker.value,
+			style:marker.style,
+			label:marker.label,
+			position:position,
+			clippedPosition:Math.min(Math.max(position,viewModel.start),viewModel.end),
+			offscreen:offscreen
+		};
+	}
+
+	/** Resolves a range to its positions clipped to the view model */
+	private createRange(range:INumberLineRange, viewModel:NumberLineViewModel, length:number):RangeViewModel{
+		const from = this.orient(this.naturalPositionOf(range.from),length);
+		const to = this.orient(this.naturalPositionOf(range.to),length);
+		// an inverted number line flips the order of the ends
+		const start = Math.min(from,to);
+		const end = Math.max(from,to);
+		const offscreen = end<viewModel.start ? "start" : start>viewModel.end ? "end" : null;
+		return {
+			id:range.id,
+			from:range.from,
+			to:range.to,
+			style:range.style,
+			label:range.label,
+			start:Math.min(Math.max(start,viewModel.start),viewModel.end),
+			end:Math.min(Math.max(end,viewModel.start),viewModel.end),
+			clippedStart:start<viewModel.start,
+			clippedEnd:end>viewModel.end,
+			offscreen:offscreen
+		};
+	}
+
+	/**
+	 * @param from Natural position where the view model starts
+	 * @param to Natural position where the view model ends
+	 * @param length Length within which positions of an inverted number line are flipped
+	 */
+	private buildLinearViewModel(from: number, to: number, length: number, cache?: ITickMarkCache): NumberLineViewModel {
 		const tickGap = this._unitLength/this.tickCount;
 		const unitLength = this.unitLength;
 		const unitValue= this.unitValue;
-		const tickValue= unitValue/this.tickCount;
+		// exact values are counted from a whole number of units before the window, so that tick counts
+		// stay within the precision of floating point numbers however far the number line is panned
+		const [baseUnits, baseDisplacement] = this._options.numericAdapter!=null ? this.splitDisplacement() : [0, this._displacement];
+		// the displacement at which the window would start at position 0
+		const displacement = baseDisplacement + from;
 		
-		let firstTickMarkValue:number;
+		let firstTickMarkCount:number;
 		let firstTickMarkIndex:number;
 		let firstTickMarkPosition:number;
 		let totalNegativeTicks:number;
-		if(this.displacement>=0){
-			const tickCountsTillFirstTick = Math.ceil((this.displacement/unitLength)*this.tickCount)
-			firstTickMarkValue = tickCountsTillFirstTick*tickValue;
+		if(displacement>=0){
+			const tickCountsTillFirstTick = Math.ceil((displacement/unitLength)*this.tickCount)
+			firstTickMarkCount = tickCountsTillFirstTick;
 			firstTickMarkIndex = tickCountsTillFirstTick % this.tickCount;
-			firstTickMarkPosition = tickCountsTillFirstTick*tickGap - this.displacement;
+			firstTickMarkPosition = tickCountsTillFirstTick*tickGap - displacement;
 			totalNegativeTicks = 0;
 		}else{
-			const tickCountsTillFirstTick = Math.floor((-this.displacement/unitLength)*this.tickCount)
+			const tickCountsTillFirstTick = Math.floor((-displacement/unitLength)*this.tickCount)
 			totalNegativeTicks = tickCountsTillFirstTick;
-			firstTickMarkValue = -tickCountsTillFirstTick*tickValue;
+			// avoid -0 as the index of the tick at origin
+			firstTickMarkCount = tickCountsTillFirstTick==0 ? 0 : -tickCountsTillFirstTick;
 			firstTickMarkIndex = tickCountsTillFirstTick % this.tickCount== 0 ? 0 : this.tickCount - tickCountsTillFirstTick % this.tickCount;
-			firstTickMarkPosition = Math.abs(this.displacement) - tickCountsTillFirstTick*tickGap;
+			firstTickMarkPosition = Math.abs(displacement) - tickCountsTillFirstTick*tickGap;
 		}
 
-		const totalTicks = Math.floor((length - firstTickMarkPosition)/tickGap) + 1;
+		const totalTicks = Math.floor((to - from - firstTickMarkPosition)/tickGap) + 1;
 		
 		const leftoverSpace = tickGap - firstTickMarkPosition;
 
 		const numberLineViewModel:NumberLineViewModel = {
 			offset:firstTickMarkPosition,
 			leftoverSpace:leftoverSpace,
-			startingValue:this.valueAt(0),
-			endingValue:this.valueAt(length),
-			length:length,
+			startingValue:this.naturalValueAt(this._options.inverted ? to : from),
+			endingValue:this.naturalValueAt(this._options.inverted ? from : to),
+			length:to - from,
+			start:this.orient(this._options.inverted ? to : from,length),
+			end:this.orient(this._options.inverted ? from : to,length),
 			numberLine:this,
 			tickMarks:[],
-			gap:tickGap
+			gap:tickGap,
+			markers:[],
+			ranges:[]
+		}
+		if(this._options.numericAdapter!=null){
+			numberLineViewModel.startingExactValue = this.naturalExactValueAt(this._options.inverted ? to : from);
+			numberLineViewModel.endingExactValue = this.naturalExactValueAt(this._options.inverted ? from : to);
 		}
 
 		
+		// values and positions are derived from the tick count instead of being accumulated,
+		// so that floating point errors don't pile up along the number line
 		for (let i = 0,
-			currentTickValue = firstTickMarkValue,
-			currentTickPosition = firstTickMarkPosition,
 			currentTickIndex = firstTickMarkIndex,
+			currentTickCount = firstTickMarkCount,
 			negativeTicksLeft = totalNegativeTicks
 			; i < totalTicks;
 			i++,
-			currentTickValue+=tickValue,
-			currentTickPosition+=tickGap,
+			currentTickCount++,
 			negativeTicksLeft--
 			) {
 
-				const tickMarkViewModel:TickMarkViewModel={
-					value:currentTickValue,
-					position:currentTickPosition,
-					height:this.options.pattern[currentTickIndex],
-					patternIndex:currentTickIndex,
-					label:this.options.labelStrategy!=null?
-						this.options.labelStrategy.labelFor(
-							currentTickValue,
-							currentTickIndex,
-							currentTickPosition,
-							this):
-							null
-				}
-				numberLineViewModel.tickMarks.push(tickMarkViewModel);
+				const currentTickValue = baseUnits*unitValue + tickValueAt(currentTickCount,unitValue,this.tickCount);
+				const currentTickPosition = currentTickCount*tickGap - baseDisplacement;
+				numberLineViewModel.tickMarks.push(this.createTickMark(currentTickValue,currentTickIndex,this.orient(currentTickPosition,length),currentTickCount,cache,baseUnits));
 				currentTickIndex = currentTickIndex + 1 < this.tickCount ? currentTickIndex + 1 : 0;
 
 		}
 
+		if(this._options.inverted){
+			// order the tick marks by their flipped positions
+			const tickMarks = numberLineViewModel.tickMarks.reverse();
+			numberLineViewModel.offset = (tickMarks.length>0 ? tickMarks[0].position : numberLineViewModel.end) - numberLineViewModel.start;
+			numberLineViewModel.leftoverSpace = tickGap - numberLineViewModel.offset;
+		}
 		return numberLineViewModel;
 	}
+
+	/**
+	 * Builds the view model of a logarithmic number line. Unlike the linear case,
+	 * tick marks are not evenly spaced: when a unit spans a decade or less, every decade
+	 * is subdivided at the integer multiples of its value (like 2,3..9 x 10^n for base 10).
+	 * Zoomed in further, the multiples are subdivided into powers of 10 that keep the tick marks
+	 * at least about a tick gap apart, like 2.1,2.2..2.9, and those count their pattern indexes in steps.
+	 * When a unit spans more than a decade, only decades get a tick mark.
+	 * In both cases the pattern index of a tick is derived from its linear fraction within the unit.
+	 */
+	private buildLogViewModel(from: number, to: number, length: number, cache?: ITickMarkCache): NumberLineViewModel {
+		const base = this.logBase;
+		const ratio = this._unitLength/this._unitValue;
+		const startingExponent = (from + this._displacement)/ratio;
+		const endingExponent = (to + this._displacement)/ratio;
+		const tickMarks:TickMarkViewModel[] = [];
+
+		const pushTickMark = (value:number, patternIndex:number, tickCount:number) => {
+			const position = this.naturalPositionOf(value);
+			if(position>=from && position<=to){
+				tickMarks.push(this.createTickMark(value,patternIndex,this.orient(position,length),tickCount,cache));
+			}
+		}
+
+		if(this._unitValue<=1){
+			const ticksPerDecade = Math.ceil(base) - 1;
+			const startingValue = this.fromLinear(startingExponent);
+			const endingValue = this.fromLinear(endingExponent);
+			for(let exponent = Math.floor(startingExponent); exponent<=Math.floor(endingExponent); exponent++){
+				// divide instead of multiplying with negative powers to avoid values like 0.30000000000000004
+				const valueOf = (multiple:number, divisor = 1) => exponent>=0 ? multiple*Math.pow(base,exponent)/divisor : multiple/(Math.pow(base,-exponent)*divisor);
+				for(let multiplier = 1; multiplier<base; multiplier++){
+					const value = valueOf(multiplier);
+					const tickCount = exponent*ticksPerDecade + multiplier - 1;
+					const subdivisions = this.logSubdivisions(multiplier);
+					if(subdivisions==1){
+						const patternIndex = multiplier==1 ? 0 : Math.round(multiplier*this.tickCount/base) % this.tickCount;
+						pushTickMark(value,patternIndex,tickCount);
+						continue;
+					}
+					// only the steps within the window, as there can be a lot of them between 2 multiples
+					const step = (valueOf(multiplier + 1) - value)/subdivisions;
+					const firstStep = Math.max(0,Math.floor((startingValue - value)/step));
+					const lastStep = Math.min(Math.ceil((Math.min(multiplier + 1,base) - multiplier)*subdivisions) - 1,Math.ceil((endingValue - value)/step));
+					for(let i = firstStep; i<=lastStep; i++){
+						const steps = multiplier*subdivisions + i;
+						pushTickMark(valueOf(steps,subdivisions),modulo(steps,this.tickCount),tickCount);
+					}
+				}
+			}
+		}else{
+			const exponentStep = Math.max(1,Math.round(this._unitValue/this.tickCount));
+			const firstExponent = Math.ceil(startingExponent/exponentStep)*exponentStep;
+			for(let exponent = firstExponent; exponent<=endingExponent; exponent+=exponentStep){
+				const fractionWithinUnit = modulo(exponent,this._unitValue)/this._unitValue;
+				const patternIndex = Math.round(fractionWithinUnit*this.tickCount) % this.tickCount;
+				pushTickMark(this.fromLinear(exponent),patternIndex,exponent/exponentStep);
+			}
+		}
+
+		return this.unevenViewModel(tickMarks,from,to,length);
+	}
+
+	/**
+	 * Number of equal steps between a multiple of a decade and the next one, a power of 10 chosen so that
+	 * the steps are no closer than about a tick gap, or 1 while the multiples themselves are far enough apart
+	 * @param multiplier The multiple of the decade where the steps start
+	 */
+	private logSubdivisions(multiplier:number):number{
+		// a step of s at the value v is ratio * s/(v*ln(base)) long, which is a tick gap for s = v*ln(base)*unitValue/tickCount
+		const multiplesPerStep = multiplier*Math.log(this.logBase)*this._unitValue/this.tickCount;
+		return Math.pow(10,Math.max(0,Math.floor(Math.log10(1/multiplesPerStep))));
+	}
+
+	/**
+	 * Builds the view model of a time scale. Tick marks snap to the boundaries of the smallest
+	 * calendar interval spanning the tick gap, and the ones at the boundaries of the smallest interval
+	 * spanning the unit value are major. Like the logarithmic case, the pattern index of a tick
+	 * is derived from its fraction within the major interval.
+	 */
+	private buildTimeViewModel(from: number, to: number, length: number, cache?: ITickMarkCache): NumberLineViewModel {
+		const start = this.naturalValueAt(from);
+		const end = this.naturalValueAt(to);
+		const minor = timeIntervalFor(this._unitValue/this.tickCount);
+		const major = timeIntervalFor(this._unitValue);
+		const tickMarks = timeTicks(start,end,minor,major,this._options.timeZoneOffset*60000).map(tick=>{
+			let patternIndex = tick.major ? 0 : Math.round(tick.fraction*this.tickCount) % this.tickCount;
+			if(!tick.major && patternIndex==0 && this.tickCount>1){
+				// keep ticks that only round to the start of the major interval from looking major
+				patternIndex = tick.fraction<0.5 ? 1 : this.tickCount - 1;
+			}
+			return this.createTickMark(tick.value,patternIndex,this.orient(this.naturalPositionOf(tick.value),length),tick.index,cache);
+		});
+
+		return this.unevenViewModel(tickMarks,from,to,length);
+	}
+
+	/**
+	 * Builds the view model of a number line split into segments. Every segment gets the tick marks
+	 * of a linear number line within its positions, counted in its own values, so a segment with a
+	 * scale of 0.1 has a tick every 10 times the tick value. The first and the last segments continue
+	 * beyond their values. A break marker is added for every break within the window.
+	 */
+	private buildSegmentedViewModel(from: number, to: number, length: number, cache?: ITickMarkCache): NumberLineViewModel {
+		const segments = this._segments;
+		const ratio = this._unitLength/this._unitValue;
+		const tickMarks:TickMarkViewModel[] = [];
+		const breaks:BreakViewModel[] = [];
+		for(let i = 0; i<segments.count; i++){
+			const segment = segments.segmentAt(i);
+			const [segmentStart, segmentEnd] = segments.positionsOf(i,ratio,this._displacement);
+			const start = i==0 ? from : Math.max(from,segmentStart);
+			const end = i==segments.count - 1 ? to : Math.min(to,segmentEnd);
+			// values of the segment are counted in unit values divided by its scale
+			const unitValue = this._unitValue/segment.scale;
+			const tickValue = unitValue/this.tickCount;
+			// adding 0 turns the -0 that rounding up values just below the origin gives into 0, like in the linear case
+			const firstTickCount = Math.ceil(segments.valueAt(start,ratio,this._displacement)/tickValue - FIT_TOLERANCE) + 0;
+			const lastTickCount = Math.floor(segments.valueAt(end,ratio,this._displacement)/tickValue + FIT_TOLERANCE);
+			for(let tickCount = firstTickCount; tickCount<=lastTickCount; tickCount++){
+				const value = tickValueAt(tickCount,unitValue,this.tickCount);
+				const position = this.naturalPositionOf(value);
+				if(position>=start && position<=end){
+					tickMarks.push(this.createTickMark(value,modulo(tickCount,this.tickCount),this.orient(position,length),tickCount,cache));
+				}
+			}
+			if(i>0 && segmentStart>=from && segmentStart - segments.gap<=to){
+				const before = this.orient(segmentStart - segments.gap,length);
+				const after = this.orient(segmentStart,length);
+				breaks.push({
+					start:Math.min(before,after),
+					end:Math.max(before,after),
+					valueBefore:segments.segmentAt(i - 1).to,
+					valueAfter:segment.from
+				});
+			}
+		}
+		const viewModel = this.unevenViewModel(tickMarks,from,to,length);
+		viewModel.breaks = this._options.inverted ? breaks.reverse() : breaks;
+		return viewModel;
+	}
+
+	/** Wraps tick marks that aren't evenly spaced, ordered by their natural positions, into a view model */
+	private unevenViewModel(tickMarks:TickMarkViewModel[], from:number, to:number, length:number):NumberLineViewModel{
+		if(this._options.inverted){
+			tickMarks.reverse();
+		}
+		const start = this.orient(this._options.inverted ? to : from,length);
+		const end = this.orient(this._options.inverted ? from : to,length);
+		const firstTickMarkPosition = tickMarks.length>0 ? tickMarks[0].position : end;
+		const lastTickMarkPosition = tickMarks.length>0 ? tickMarks[tickMarks.length-1].position : end;
+		return {
+			offset:firstTickMarkPosition - start,
+			leftoverSpace:end - lastTickMarkPosition,
+			startingValue:this.naturalValueAt(this._options.inverted ? to : from),
+			endingValue:this.naturalValueAt(this._options.inverted ? from : to),
+			length:to - from,
+			start:start,
+			end:end,
+			numberLine:this,
+			tickMarks:tickMarks,
+			gap:this._unitLength/this.tickCount,
+			markers:[],
+			ranges:[]
+		}
+	}
+
+	/** Flips a natural position within the given length when the number line is inverted */
+	private orient(position:number, length:number):number{
+		return this._options.inverted ? length - position : position;
+	}
+
+	/**
+	 * Creates the view model of a single tick mark, labelled using the label strategy
+	 * @param tickCount Signed count of ticks from the origin, or from the base units, till this tick
+	 * @param cache Tick marks and labels of the previous build to reuse
+	 * @param baseUnits Whole units before the tick count, which keeps counts small far from the origin
+	 */
+	private createTickMark(value:number, patternIndex:number, position:number, tickCount:number, cache?:ITickMarkCache, baseUnits = 0):TickMarkViewModel{
+		const cached = cache?.tickMarks.get(value);
+		if(cached!=undefined){
+			// only the position changes while panning, the label may have been dropped by a label layout
+			cached.position = position;
+			delete cached.labelBox;
+			cached.label = this.labelOf(cached,cache);
+			return cached;
+		}
+		// logarithmic and calendar tick counts aren't evenly spaced, so levels repeat within a unit there
+		const levelCount = this._options.scale=="linear" ? tickCount : patternIndex;
+		// the base units are reduced first, as their count of ticks can be beyond the precision of floating point numbers
+		const levelIndex = this._levels.findIndex(level=>modulo(modulo(baseUnits,level.every)*this.tickCount + levelCount,level.every)==0);
+		const level = this._levels[levelIndex];
+		const tickMark:TickMarkViewModel = {
+			value:value,
+			position:position,
+			height:level.height ?? this._options.pattern[patternIndex],
+			patternIndex:patternIndex,
+			tickIndex:baseUnits*this.tickCount + tickCount,
+			level:level.name,
+			levelIndex:levelIndex,
+			visibilityThreshold:(level.minSpacing ?? 4)/level.every,
+			label:null
+		}
+		const adapter = this._options.numericAdapter;
+		if(adapter!=null){
+			tickMark.exactValue = adapter.add(adapter.multiply(this._exactUnitValue,baseUnits),adapter.divide(adapter.multiply(this._exactUnitValue,tickCount),this.tickCount));
+		}
+		tickMark.label = this.labelOf(tickMark,cache);
+		return tickMark;
+	}
+
+	/** Labels a tick mark using the label strategy, unless the cache already has its label */
+	private labelOf(tickMark:TickMarkViewModel, cache?:ITickMarkCache):string{
+		const strategy = this._options.labelStrategy;
+		if(strategy==null){
+			return null;
+		}
+		if(cache!=undefined && cache.labels.has(tickMark.value)){
+			return cache.labels.get(tickMark.value);
+		}
+		const label = strategy.labelFor(
+			tickMark.value,
+			tickMark.patternIndex,
+			tickMark.position,
+			this,
+			tickMark);
+		cache?.labels.set(tickMark.value,label);
+		return label;
+	}
+}
+
+/** Version of the schema written by {@link NumberLine.toJSON} */
+export const NUMBER_LINE_JSON_VERSION = 1;
+
+/** Serialized zoom strategy, built in strategies by their type, others by their registered name */
+export type ZoomStrategyJSON = { type: "staircase" } | { type: "nice", steps: number[] } | { type: "registered", name: string };
+
+/** Serialized state of a number line as written by {@link NumberLine.toJSON} */
+export interface NumberLineJSON {
+	version: typeof NUMBER_LINE_JSON_VERSION;
+	magnification: number;
+	displacement: number;
+	options: {
+		pattern: number[];
+		breakpointLowerbound: number;
+		breakpointUpperBound: number;
+		zoomPeriod: number;
+		zoomFactor: number;
+		scale: NumberLineScale;
+		logBase: number;
+		timeZoneOffset?: number;
+		/** Registered name of the label strategy */
+		labelStrategy: string | null;
+		/** Null if it is a custom strategy that isn't registered */
+		zoomStrategy: ZoomStrategyJSON | null;
+		/** Registered name of the numeric adapter */
+		numericAdapter: string | null;
+		constraints?: INumberLineConstraints;
+		viewportLength?: number;
+		levels?: ITickLevel[];
+		orientation?: NumberLineOrientation;
+		inverted?: boolean;
+		segments?: IScaleSegment[];
+		segmentGap?: number;
+	};
+	markers?: INumberLineMarker[];
+	ranges?: INumberLineRange[];
+}
+
+function zoomStrategyToJSON(strategy: IZoomStrategy): ZoomStrategyJSON | null {
+	if(strategy instanceof StaircaseZoomStrategy){
+		return { type: "staircase" };
+	}
+	if(strategy instanceof NiceZoomStrategy){
+		return { type: "nice", steps: [...strategy.steps] };
+	}
+	const name = NumberLine.zoomStrategies.nameOf(strategy);
+	return name==null ? null : { type: "registered", name: name };
+}
+
+function zoomStrategyFromJSON(json: ZoomStrategyJSON): IZoomStrategy {
+	switch(json.type){
+		case "staircase":
+			return new StaircaseZoomStrategy();
+		case "nice":
+			return new NiceZoomStrategy(json.steps);
+		case "registered":
+			return NumberLine.zoomStrategies.get(json.name);
+		default:
+			throw new Error("Unknown zoom strategy type");
+	}
+}
+
+/**
+ * Removes the labels that would overlap. Labels are placed level by level, starting with the
+ * most important one, and a label is dropped if it collides with a label that is already placed.
+ * This thins out the labels of a level evenly from the start of the number line.
+ */
+function layoutLabels(tickMarks: TickMarkViewModel[], layout: ILabelLayoutOptions) {
+	const minSpacing = layout.minSpacing ?? 0;
+	const anchor = layout.anchor ?? "center";
+	const placed:LabelBox[] = [];
+	const byLevel = tickMarks.filter(tickMark=>tickMark.label!=null).sort((a,b)=>a.levelIndex - b.levelIndex || a.position - b.position);
+	for(const tickMark of byLevel){
+		const size = layout.measure(tickMark.label,tickMark);
+		const start = anchor=="start" ? tickMark.position : anchor=="end" ? tickMark.position - size : tickMark.position - size/2;
+		const box:LabelBox = { start:start, end:start + size };
+		const collides = placed.some(other=>box.start < other.end + minSpacing && other.start < box.end + minSpacing);
+		if(collides){
+			tickMark.label = null;
+		}else{
+			tickMark.labelBox = box;
+			placed.push(box);
+		}
+	}
+}
+
+/** Checks that levels repeat at positive integer divisors of the previous level, ending at every tick */
+function areNestedLevels(levels: ITickLevel[]): boolean {
+	if(levels.length==0 || levels[levels.length-1].every!=1){
+		return false;
+	}
+	return levels.every((level,i)=>Number.isInteger(level.every) && level.every>0 && (i==0 || levels[i-1].every % level.every==0));
+}
+
+/**
+ * Derives levels from the distinct heights of a pattern. A tick mark belongs to the
+ * level of the biggest height that repeats evenly at its index.
+ */
+function levelsOf(pattern: number[]): ITickLevel[] {
+	const heights = [...new Set(pattern)].sort((a,b)=>b-a);
+	const names = heights.length==1 ? ["major"] : heights.map((height,i)=>{
+		if(i==0){
+			return "major";
+		}
+		if(i==heights.length-1){
+			return "minor";
+		}
+		return heights.length==3 ? "mid" : `mid${i}`;
+	});
+	return heights.map((height,i)=>{
+		// the spacing of the ticks at least this tall, which is the pattern length for the tallest
+		const every = i==heights.length-1 ? 1 : pattern.reduce((spacing,tickHeight,index)=>tickHeight>=height ? greatestCommonDivisor(spacing,index) : spacing,pattern.length);
+		return { name:names[i], every:every };
+	});
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+	return b==0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+function copyConstraints(constraints: INumberLineConstraints): INumberLineConstraints {
+	const copy = {...constraints};
+	if(constraints.keepVisible!=undefined){
+		copy.keepVisible = [constraints.keepVisible[0], constraints.keepVisible[1]];
+	}
+	return copy;
+}
+
+/** Relative tolerance within which a range is considered to fit exactly */
+const FIT_TOLERANCE = 1e-9;
+
+/** Options for {@link NumberLine.fit} */
+export interface IRangeFitOptions {
+	/**
+	 * Space to leave before the start and after the end of the range, in the same unit as length.
+	 * Either one number for both sides or a tuple of [start, end].
+	 * @default 0
+	 */
+	padding?: number | [number, number];
+	/**
+	 * The largest residual for which the fit is still considered exact
+	 * @default 1e-6
+	 */
+	tolerance?: number;
+}
+
+/** Outcome of fitting a range in a length */
+export interface RangeFitResult {
+	/** The magnification for the fit */
+	magnification: number;
+	/** The displacement for the fit */
+	displacement: number;
+	/** Distance between where the end of the range lands and where it should, in the same unit as length */
+	residual: number;
+	/** Whether the residual is within the tolerance */
+	fitted: boolean;
+}
+
+/**
+ * Describes how unit length and unit value change with the magnification of a number line.
+ * Implement this to plug in your own zoom curve.
+ */
+export interface IZoomStrategy {
+	/**
+	 * The unit length at a given magnification
+	 * @param magnification The magnification level
+	 * @param numberLine The number line being zoomed, for its breakpoints, zoom period and zoom factor
+	 */
+	unitLengthAt(magnification: number, numberLine: NumberLine): number;
+	/**
+	 * The unit value at a given magnification
+	 * @param magnification The magnification level
+	 * @param numberLine The number line being zoomed, for its breakpoints, zoom period and zoom factor
+	 */
+	unitValueAt(magnification: number, numberLine: NumberLine): number;
+	/**
+	 * Finds the magnification at which a measure of values spans a given length.
+	 * If the curve can't fit it exactly, the closest magnification that contains the measure is returned.
+	 * @param measure The measure of values to fit
+	 * @param length The length to fit the measure in
+	 * @param numberLine The number line being zoomed
+	 * @param forUnitLength The preferred unit length at the magnification. Strategies may ignore it.
+	 */
+	magnificationFor(measure: number, length: number, numberLine: NumberLine, forUnitLength?: number): number;
+}
+
+/**
+ * The default zoom curve. Unit length follows a {@link sawtooth} wave between the breakpoints
+ * and unit value follows a {@link staircase} of zoom factor multiples, both changing every zoom period.
+ */
+export class StaircaseZoomStrategy implements IZoomStrategy {
+
+	unitLengthAt(magnification: number, numberLine: NumberLine): number {
+		return sawtooth(magnification, numberLine.lowerBoundUnitLength, numberLine.upperBoundUnitLength, numberLine.zoomPeriod);
+	}
+
+	unitValueAt(magnification: number, numberLine: NumberLine): number {
+		return staircase(magnification, numberLine.zoomFactor, numberLine.zoomPeriod);
+	}
+
+	/**
+	 * Finds the magnification for the smallest multiple of zoom factor that contains the measure at the preferred unit length.
+	 * Without a preferred unit length, the unit length in between the breakpoints that fits the measure exactly is
+	 * used if there is one. Otherwise the exact one is at or beyond the upper breakpoint, so the closest unit length
+	 * that can be reached, just below the upper breakpoint, is used.
+	 */
+	magnificationFor(measure: number, length: number, numberLine: NumberLine, forUnitLength?: number): number {
+		let targetUnitLength = forUnitLength==undefined ? numberLine.lowerBoundUnitLength : forUnitLength;
+		// find the ratio of unit value to unit length
+		const ratio = measure/length;
+		// count the zoom factors needed for the unit value, without letting floating point errors bump it to the next one
+		const steps = Math.max(1,Math.ceil(ratio * targetUnitLength/numberLine.zoomFactor - FIT_TOLERANCE));
+		const exactUnitLength = steps * numberLine.zoomFactor/ratio;
+		const magnificationBase = (steps-1) * numberLine.zoomPeriod;
+		const unitLengthRange = numberLine.upperBoundUnitLength - numberLine.lowerBoundUnitLength;
+		if(forUnitLength==undefined && unitLengthRange>0){
+			if(exactUnitLength>=numberLine.upperBoundUnitLength){
+				// the upper breakpoint itself belongs to the next step, so stop short of it
+				return magnificationBase + numberLine.zoomPeriod * (1 - FIT_TOLERANCE);
+			}
+			targetUnitLength = exactUnitLength;
+		}
+		const magnificationOffset = unitLengthRange==0 ? 0 : numberLine.zoomPeriod * (targetUnitLength - numberLine.lowerBoundUnitLength)/unitLengthRange;
+		return magnificationBase + magnificationOffset;
+	}
+}
+
+/**
+ * A zoom curve whose unit values follow a "nice" sequence like 1, 2, 5, 10, 20, 50...
+ * (multiplied by the zoom factor), changing every zoom period. Bigger magnification means bigger unit value.
+ * Within a zoom period unit length shrinks geometrically from the upper breakpoint by the ratio between
+ * the current and the next unit value, so the scale(unit length per unit value) changes continuously.
+ * This also lets any range be fit exactly. The lower breakpoint is not used by this curve.
+ */
+export class NiceZoomStrategy implements IZoomStrategy {
+
+	/**
+	 * @param steps The increasing mantissas of the sequence within a decade. Each must be in [1,10).
+	 */
+	constructor(readonly steps:number[] = [1,2,5]){
+		if(steps.length==0 || steps.some((step,i)=>step<1 || step>=10 || (i>0 && step<=steps[i-1]))){
+			throw new Error("Nice steps must be increasing numbers within [1,10)");
+		}
+	}
+
+	unitLengthAt(magnification: number, numberLine: NumberLine): number {
+		const stepIndex = Math.floor(magnification/numberLine.zoomPeriod);
+		const progress = magnification/numberLine.zoomPeriod - stepIndex;
+		return numberLine.upperBoundUnitLength * Math.pow(this.stepRatio(stepIndex),-progress);
+	}
+
+	unitValueAt(magnification: number, numberLine: NumberLine): number {
+		return this.niceValue(Math.floor(magnification/numberLine.zoomPeriod),numberLine.zoomFactor);
+	}
+
+	magnificationFor(measure: number, length: number, numberLine: NumberLine): number {
+		// unit value(without the zoom factor) at which the upper breakpoint gives the required scale
+		const target = numberLine.upperBoundUnitLength * measure/length/numberLine.zoomFactor;
+		if(!(target>0) || !Number.isFinite(target)){
+			// a nice value can't be found for an empty measure, it would take an infinite magnification
+			throw new Error("The measure and the length to fit must be positive");
+		}
+		// find the biggest nice value that doesn't exceed the target
+		const exponent = Math.floor(Math.log10(target));
+		let stepIndex = (exponent - 1) * this.steps.length + this.steps.length - 1;
+		for(let i = this.steps.length - 1; i>=0; i--){
+			if(this.niceValue(exponent * this.steps.length + i) <= target * (1 + FIT_TOLERANCE)){
+				stepIndex = exponent * this.steps.length + i;
+				break;
+			}
+		}
+		// unit length shrinks by the step ratio over a period, so solve the geometric progress for the target
+		const progress = Math.log(target/this.niceValue(stepIndex))/Math.log(this.stepRatio(stepIndex));
+		return (stepIndex + clamp(progress,0,1)) * numberLine.zoomPeriod;
+	}
+
+	/**
+	 * The nice value at an index of the sequence, where 0 is the first step of the decade of 1
+	 * @param stepIndex Index in the sequence
+	 * @param factor Multiplier of the value, like the zoom factor
+	 */
+	private niceValue(stepIndex:number,factor = 1):number{
+		const mantissa = this.steps[modulo(stepIndex,this.steps.length)];
+		const exponent = Math.floor(stepIndex/this.steps.length);
+		// divide instead of multiplying with negative powers, and scale the factor to an integer like
+		// tick values do, to avoid values like 0.30000000000000004
+		return exponent>=0 ? tickValueAt(mantissa * Math.pow(10,exponent),factor,1) : tickValueAt(mantissa,factor,Math.pow(10,-exponent));
+	}
+
+	/** Ratio between the next and the current nice value */
+	private stepRatio(stepIndex:number):number{
+		const next = modulo(stepIndex,this.steps.length) + 1;
+		return next<this.steps.length ? this.steps[next]/this.steps[next-1] : 10*this.steps[0]/this.steps[next-1];
+	}
 }
 
 /**
@@ -363,6 +1858,50 @@ export function clamp(value:number,min:number, max:number){
 	return Math.min(Math.max(value, min), max);
 };
 
+/**
+ * Computes the value of a tick mark from its index, counted from the origin.
+ * The unit value is scaled to an integer by its decimal places first, so that the only
+ * rounding happens in the final division. This makes the 3rd tick of 0.1 come out as 0.3
+ * instead of 0.30000000000000004.
+ * @param tickIndex Signed index of the tick mark counted from the origin
+ * @param unitValue The value of a unit
+ * @param tickCount The number of tick marks in a unit
+ * @returns The nearest floating point number to the value of the tick mark
+ */
+export function tickValueAt(tickIndex:number, unitValue:number, tickCount:number):number{
+	const places = decimalPlaces(unitValue);
+	if(places>15){
+		return tickIndex*unitValue/tickCount;
+	}
+	const scale = Math.pow(10,places);
+	return (tickIndex*Math.round(unitValue*scale))/(tickCount*scale);
+}
+
+/**
+ * Counts the digits after the decimal point of a number, as written in its shortest form.
+ * @param value The number
+ * @returns The count of decimal places, 0 for integers
+ */
+export function decimalPlaces(value:number):number{
+	if(!Number.isFinite(value)){
+		return 0;
+	}
+	const [digits,exponent] = Math.abs(value).toExponential().split("e");
+	const fractionDigits = digits.includes(".") ? digits.split(".")[1].length : 0;
+	return Math.max(0,fractionDigits - Number(exponent));
+}
+
+/**
+ * Computes the remainder of a division that always has the sign of the divisor,
+ * unlike the % operator which keeps the sign of the dividend.
+ * @param dividend The value to divide
+ * @param divisor The value to divide by
+ * @returns The remainder between 0(inclusive) and divisor(exclusive)
+ */
+export function modulo(dividend:number, divisor:number):number{
+	return ((dividend % divisor) + divisor) % divisor;
+}
+
 /**
  * Computes the next biggest number divisible by a given denominator
  * @param numerator The value that should be divisible
@@ -455,7 +1994,8 @@ export function sawtooth(x: number, lowerBound: number, upperBound: number, peri
  */
 export function staircase(x: number, height: number, period: number): number {
 	const steps = Math.floor(Math.abs(x) / period)+1;
-	const y = steps * height;
+	// scaled like tick values, so steps of 0.1 give 0.3 instead of 0.30000000000000004
+	const y = tickValueAt(steps, height, 1);
 	return y;
 }
 
@@ -468,9 +2008,32 @@ export interface ITickMarkLabelStrategy {
 	 * @param index Index of this tick mark in the tick mark pattern
 	 * @param position The position of this tick mark w.r.t start
 	 * @param numberLine The main number line requesting the label
+	 * @param tickMark The tick mark being labelled, with everything but the label already computed
 	 * @returns The formatted tick mark label. Return null for blank tick marks.
 	 */
-	labelFor(value: number, index: number, position: number, numberLine: NumberLine): string;
+	labelFor(value: number, index: number, position: number, numberLine: NumberLine, tickMark?: Readonly<TickMarkViewModel>): string;
+}
+
+/**
+ * Arithmetic of a numeric type that can represent values exactly, beyond
+ * the precision of floating point numbers. See lib/numeric-adapters.ts for
+ * BigInt and fixed point decimal implementations.
+ */
+export interface INumericAdapter<T> {
+	/** Converts a floating point number to the numeric type, rounding it if needed */
+	fromNumber(value: number): T;
+	/** Converts a value to the nearest floating point number */
+	toNumber(value: T): number;
+	/** Adds 2 values */
+	add(a: T, b: T): T;
+	/** Multiplies a value by an integer */
+	multiply(value: T, multiplier: number): T;
+	/** Divides a value by an integer */
+	divide(value: T, divisor: number): T;
+	/** Ratio of 2 values as a floating point number. Should be precise even if the values themselves aren't. */
+	ratio(a: T, b: T): number;
+	/** Formats a value without any loss of precision */
+	toString(value: T): string;
 }
 
 /**
@@ -496,14 +2059,131 @@ export interface NumberLineViewModel {
 	gap: number;
 	/** Array of tick marks over the length of this view model */
 	tickMarks: TickMarkViewModel[];
-	/** The length of this ruler view model */
+	/** The length of this ruler view model, including any overscan */
 	length: number;
+	/**
+	 * Position where the view model starts, 0 unless it is overscanned or built for a window
+	 * by {@link NumberLine.buildViewModelRange}. {@link offset} is measured from here.
+	 */
+	start: number;
+	/** Position where the view model ends */
+	end: number;
 	/** The value at the start of the number line */
 	startingValue: number;
 	/** The value at the end of the number line */
 	endingValue: number;
+	/** The value at the start of the number line, in the numeric type of {@link INumberLineOptions.numericAdapter} */
+	startingExactValue?: unknown;
+	/** The value at the end of the number line, in the numeric type of {@link INumberLineOptions.numericAdapter} */
+	endingExactValue?: unknown;
 	/** The number line for which this view model was created */
 	numberLine: NumberLine;
+	/** Breaks between the {@link INumberLineOptions.segments} within the view model, ordered by position */
+	breaks?: BreakViewModel[];
+	/** The markers of the number line, including the ones out of view */
+	markers: MarkerViewModel[];
+	/** The highlighted ranges of the number line, including the ones out of view */
+	ranges: RangeViewModel[];
+}
+
+/** A marker resolved to a position, see {@link NumberLine.setMarker} */
+export interface MarkerViewModel {
+	id: string;
+	value: number;
+	style?: string;
+	label?: string;
+	/** Position of the value, which may be beyond the view model */
+	position: number;
+	/** Position clamped within the view model, where an edge indicator goes for markers out of view */
+	clippedPosition: number;
+	/** The end of the view model beyond which the marker is, null if it is in view */
+	offscreen: "start" | "end" | null;
+}
+
+/** A highlighted range resolved to positions clipped to the view model, see {@link NumberLine.setRange} */
+export interface RangeViewModel {
+	id: string;
+	from: number;
+	to: number;
+	style?: string;
+	label?: string;
+	/** Position where the visible part of the range starts */
+	start: number;
+	/** Position where the visible part of the range ends, the same as start if none of it is visible */
+	end: number;
+	/** True if the range continues before the start of the view model */
+	clippedStart: boolean;
+	/** True if the range continues beyond the end of the view model */
+	clippedEnd: boolean;
+	/** The end of the view model beyond which the whole range is, null if any of it is in view */
+	offscreen: "start" | "end" | null;
+}
+
+/** A break between 2 segments of a broken axis, where a break marker is drawn */
+export interface BreakViewModel {
+	/** Position where the break starts */
+	start: number;
+	/** Position where the break ends */
+	end: number;
+	/** The last value of the segment before the break */
+	valueBefore: number;
+	/** The first value of the segment after the break */
+	valueAfter: number;
+}
+
+/** Options of {@link NumberLine.buildViewModel} */
+export interface IBuildViewModelOptions {
+	/** Drops overlapping labels when specified */
+	labelLayout?: ILabelLayoutOptions;
+	/**
+	 * Extra length built beyond both ends, so that fast panning doesn't reveal empty edges
+	 * before the next build. Tick marks there have negative positions or positions beyond the length.
+	 * @default 0
+	 */
+	overscan?: number;
+	/**
+	 * Extra units(of the current unit length) built beyond both ends, added to {@link overscan}
+	 * @default 0
+	 */
+	overscanUnits?: number;
+	/**
+	 * Reuses the tick marks and labels of earlier builds with the same values instead of creating them.
+	 * It is only valid while the zoom and the options stay the same, see {@link ViewModelBuilder}.
+	 */
+	cache?: ITickMarkCache;
+}
+
+/** Tick marks and labels by value, filled in by {@link NumberLine.buildViewModel} */
+export interface ITickMarkCache {
+	/** Tick marks by value, reused as they are except for their positions */
+	tickMarks: Map<number, TickMarkViewModel>;
+	/** Labels by value, so that the label strategy is called once for every value */
+	labels: Map<number, string>;
+}
+
+/** How labels are measured and spaced by the label layout of the view model */
+export interface ILabelLayoutOptions {
+	/**
+	 * Measures the size of a label along the number line(the width of a horizontal label
+	 * on a horizontal number line), in the same unit as the positions
+	 */
+	measure: (label: string, tickMark: Readonly<TickMarkViewModel>) => number;
+	/**
+	 * Smallest space between 2 labels
+	 * @default 0
+	 */
+	minSpacing?: number;
+	/**
+	 * Where the label sits relative to its tick mark
+	 * @default "center"
+	 */
+	anchor?: "start" | "center" | "end";
+}
+
+/** The extent of a label along the number line */
+export interface LabelBox {
+	start: number;
+	end: number;
 }
 
 /** ViewModel that describes what a tick mark looks like */
@@ -514,8 +2194,27 @@ export interface TickMarkViewModel {
 	label: string;
 	/** Index from the tick mark pattern */
 	patternIndex:number;
+	/**
+	 * Signed index of this tick mark counted from the origin. In a linear scale the value of the tick
+	 * mark is derived from it. In a logarithmic scale the multiples of decades are counted from the value 1,
+	 * and tick marks subdividing the multiples share the count of the multiple before them.
+	 */
+	tickIndex:number;
 	/** Value of this tick mark */
 	value: number;
+	/** Value of this tick mark in the numeric type of {@link INumberLineOptions.numericAdapter}, if there is one */
+	exactValue?: unknown;
 	/** Position of this tick mark from the start */
 	position: number;
+	/** Name of the most important level the tick mark belongs to, see {@link INumberLineOptions.levels} */
+	level: string;
+	/** Index of the level of the tick mark, 0 being the most important */
+	levelIndex: number;
+	/**
+	 * Smallest gap between tick marks({@link NumberLineViewModel.gap}) at which tick marks
+	 * of this level are far enough apart to be shown
+	 */
+	visibilityThreshold: number;
+	/** Extent of the label along the number line, only set by the label layout for labels that are kept */
+	labelBox?: LabelBox;
 }
\ No newline at end of file
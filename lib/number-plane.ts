@@ -0,0 +1,164 @@
+import { INumberLineOptions, NumberLine, NumberLineViewModel, TickMarkViewModel } from "./number-line";
+
+/** A point in either values or positions */
+export interface Point {
+	x: number;
+	y: number;
+}
+
+/** Configurational description of the number plane */
+export interface INumberPlaneOptions {
+	/** Options of the horizontal number line */
+	x: INumberLineOptions;
+	/** Options of the vertical number line */
+	y: INumberLineOptions;
+	/**
+	 * Keeps the ratio between the scales of the 2 number lines, as it is after construction,
+	 * while zooming. Useful for graphs where a circle has to stay a circle.
+	 */
+	lockAspectRatio?: boolean;
+}
+
+/**
+ * A 2D plane made of a horizontal and a vertical number line
+ * that are panned and zoomed together
+ */
+export class NumberPlane {
+
+	readonly x: NumberLine;
+	readonly y: NumberLine;
+	private _aspectRatio: number = null;
+
+	constructor(options: INumberPlaneOptions) {
+		this.x = new NumberLine(options.x);
+		this.y = new NumberLine(options.y);
+		this.lockAspectRatio = options.lockAspectRatio || false;
+	}
+
+	get lockAspectRatio(): boolean {
+		return this._aspectRatio != null;
+	}
+
+	/** Locks the aspect ratio at the current scales of the number lines */
+	set lockAspectRatio(lock: boolean) {
+		this._aspectRatio = lock ? scaleOf(this.y) / scaleOf(this.x) : null;
+	}
+
+	/** The locked ratio of the vertical scale to the horizontal scale, null if it isn't locked */
+	get aspectRatio(): number {
+		return this._aspectRatio;
+	}
+
+	/**
+	 * Zooms both number lines around a point, which stays frozen throughout the zoom.
+	 * With a locked aspect ratio, the vertical number line follows the scale of the horizontal one.
+	 * @param x Horizontal position to zoom around
+	 * @param y Vertical position to zoom around
+	 * @param by The delta amount to zoom by
+	 * @returns True if the zoom or the pan of either number line had to be clamped by its constraints
+	 */
+	zoomAround(x: number, y: number, by: number): boolean {
+		const xClamped = this.x.zoomAround(x, by);
+		if(this._aspectRatio == null){
+			return this.y.zoomAround(y, by) || xClamped;
+		}
+		const scale = scaleOf(this.x) * this._aspectRatio;
+		const magnification = this.y.zoomStrategy.magnificationFor(1, scale, this.y);
+		return this.y.zoomAround(y, magnification - this.y.magnification) || xClamped;
+	}
+
+	/**
+	 * Pans both number lines to the given displacements
+	 * @param x Displacement of the horizontal number line
+	 * @param y Displacement of the vertical number line
+	 * @returns True if either displacement had to be clamped by the constraints
+	 */
+	panTo(x: number, y: number): boolean {
+		const xClamped = this.x.panTo(x);
+		return this.y.panTo(y) || xClamped;
+	}
+
+	/**
+	 * Increases/Decreases the displacements of both number lines
+	 * @param x The amount to change the horizontal displacement by
+	 * @param y The amount to change the vertical displacement by
+	 * @returns True if either displacement had to be clamped by the constraints
+	 */
+	panBy(x: number, y: number): boolean {
+		const xClamped = this.x.panBy(x);
+		return this.y.panBy(y) || xClamped;
+	}
+
+	/**
+	 * Calculates the values at a given position
+	 * @param position The position in the plane
+	 */
+	valueAt(position: Point): Point {
+		return { x: this.x.valueAt(position.x), y: this.y.valueAt(position.y) };
+	}
+
+	/**
+	 * Position of the given values in the plane
+	 * @param value The values in the plane
+	 */
+	positionOf(value: Point): Point {
+		return { x: this.x.positionOf(value.x), y: this.y.positionOf(value.y) };
+	}
+
+	/**
+	 * Builds the view models of both number lines along with the grid lines
+	 * across the plane. Tick marks at the start of a unit make major grid lines,
+	 * the rest make minor ones.
+	 * @param width Length of the horizontal number line
+	 * @param height Length of the vertical number line
+	 */
+	buildViewModel(width: number, height: number): NumberPlaneViewModel {
+		const x = this.x.buildViewModel(width);
+		const y = this.y.buildViewModel(height);
+		return {
+			x: x,
+			y: y,
+			width: width,
+			height: height,
+			gridLines: [...x.tickMarks.map(tickMark => gridLineOf("x", tickMark)), ...y.tickMarks.map(tickMark => gridLineOf("y", tickMark))],
+			numberPlane: this
+		};
+	}
+}
+
+function scaleOf(numberLine: NumberLine): number {
+	return numberLine.unitLength / numberLine.unitValue;
+}
+
+function gridLineOf(axis: "x" | "y", tickMark: TickMarkViewModel): GridLineViewModel {
+	return {
+		axis: axis,
+		position: tickMark.position,
+		value: tickMark.value,
+		major: tickMark.patternIndex == 0,
+		tickMark: tickMark
+	};
+}
+
+/**
+ * A line across the plane. Lines of the x axis are vertical lines
+ * at a horizontal position, lines of the y axis are horizontal lines.
+ */
+export interface GridLineViewModel {
+	axis: "x" | "y";
+	position: number;
+	value: number;
+	/** True for lines at the start of a unit */
+	major: boolean;
+	/** The tick mark the line is drawn for */
+	tickMark: TickMarkViewModel;
+}
+
+export interface NumberPlaneViewModel {
+	x: NumberLineViewModel;
+	y: NumberLineViewModel;
+	width: number;
+	height: number;
+	gridLines: GridLineViewModel[];
+	numberPlane: NumberPlane;
+}
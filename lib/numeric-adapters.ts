@@ -0,0 +1,58 @@
+import { INumericAdapter } from "./number-line";
+
+/**
+ * Numeric adapter for integer values backed by BigInt.
+ * Divisions truncate towards zero, so choose unit values that are divisible by
+ * the number of tick marks in the pattern(like powers of 10 for a pattern of 10 ticks).
+ */
+export const bigIntAdapter: INumericAdapter<bigint> = {
+	fromNumber: (value) => BigInt(Math.round(value)),
+	toNumber: (value) => Number(value),
+	add: (a, b) => a + b,
+	multiply: (value, multiplier) => value * BigInt(multiplier),
+	divide: (value, divisor) => value / BigInt(divisor),
+	ratio: (a, b) => bigIntRatio(a, b),
+	toString: (value) => value.toString()
+};
+
+/**
+ * Creates a numeric adapter for fixed point decimals. Values are BigInts counting
+ * the smallest representable fraction, so with 2 fraction digits 1.25 is represented by 125n.
+ * Divisions truncate towards zero beyond the given fraction digits.
+ * @param fractionDigits The number of digits after the decimal point
+ * @returns The numeric adapter
+ */
+export function decimalAdapter(fractionDigits: number): INumericAdapter<bigint> {
+	if(!Number.isInteger(fractionDigits) || fractionDigits < 0){
+		throw new Error("Fraction digits must be a non negative integer");
+	}
+	const scale = 10n ** BigInt(fractionDigits);
+	return {
+		fromNumber: (value) => {
+			// split the whole part so that big values don't lose precision when scaled up
+			const whole = Math.trunc(value);
+			const fraction = value - whole;
+			return BigInt(whole) * scale + BigInt(Math.round(fraction * Math.pow(10, fractionDigits)));
+		},
+		toNumber: (value) => Number(value / scale) + Number(value % scale) / Number(scale),
+		add: (a, b) => a + b,
+		multiply: (value, multiplier) => value * BigInt(multiplier),
+		divide: (value, divisor) => value / BigInt(divisor),
+		ratio: (a, b) => bigIntRatio(a, b),
+		toString: (value) => {
+			const negative = value < 0n;
+			const abs = negative ? -value : value;
+			const whole = (abs / scale).toString();
+			const fraction = (abs % scale).toString().padStart(fractionDigits, "0").replace(/0+$/, "");
+			const formatted = fraction.length > 0 ? `${whole}.${fraction}` : whole;
+			return negative ? `-${formatted}` : formatted;
+		}
+	};
+}
+
+/** Divides 2 BigInts into a floating point number without converting them to floats first */
+function bigIntRatio(a: bigint, b: bigint): number {
+	const quotient = a / b;
+	const remainder = a % b;
+	return Number(quotient) + Number(remainder) / Number(b);
+}
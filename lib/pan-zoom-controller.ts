@@ -0,0 +1,368 @@
+import type { NumberLine } from "./number-line";
+import { frameClock, IAnimationClock } from "./animation";
+
+/** A pointer(mouse, pen or a single finger) event along the number line */
+export interface IPointerSample {
+	type: "down" | "move" | "up" | "cancel";
+	/** Position along the number line, in the same unit as the number line(most likely pixels) */
+	position: number;
+	/** Time of the event in milliseconds */
+	time: number;
+}
+
+/**
+ * A wheel event. Positive deltas increase the magnification, which zooms out with the {@link NiceZoomStrategy}.
+ * The default staircase curve zooms in within a zoom period and out at the end of it, see {@link StaircaseZoomStrategy}.
+ */
+export interface IWheelSample {
+	delta: number;
+	/** Position to zoom around */
+	position: number;
+	/** Time of the event in milliseconds, wheel events in quick succession keep zooming after they stop */
+	time: number;
+}
+
+/** A touch event with the positions of all the touches that are still down */
+export interface ITouchSample {
+	type: "start" | "move" | "end" | "cancel";
+	touches: { id: number, position: number }[];
+	time: number;
+}
+
+export interface IPanZoomControllerOptions {
+	/**
+	 * How quickly a fling slows down, as the fraction of velocity lost per millisecond
+	 * @default 0.004
+	 */
+	friction?: number;
+	/**
+	 * Panning speed(per millisecond) below which momentum stops
+	 * @default 0.02
+	 */
+	minVelocity?: number;
+	/**
+	 * Magnification per millisecond below which zoom momentum stops
+	 * @default 0.0005
+	 */
+	minZoomVelocity?: number;
+	/**
+	 * Only the samples of the last given milliseconds count towards the release velocity
+	 * @default 100
+	 */
+	velocityWindow?: number;
+	/**
+	 * Magnification per unit of wheel delta
+	 * @default 0.01
+	 */
+	wheelSensitivity?: number;
+	/**
+	 * Fraction of the drag applied beyond the constrained domain. 0 stops at the bounds.
+	 * @default 0.5
+	 */
+	rubberBand?: number;
+	/**
+	 * Time constant in milliseconds of springing back within bounds after a rubber banded drag
+	 * @default 80
+	 */
+	springTime?: number;
+	/** @default frameClock */
+	clock?: IAnimationClock;
+}
+
+interface Sample {
+	time: number;
+	value: number;
+}
+
+/**
+ * Turns pointer, wheel and touch samples into pans and zooms of a number line, with
+ * momentum after the release and rubber banding at the bounds of its constraints.
+ * Samples are plain data, so feed it from DOM events or anything else.
+ */
+export class PanZoomController {
+
+	private readonly friction: number;
+	private readonly minVelocity: number;
+	private readonly minZoomVelocity: number;
+	private readonly velocityWindow: number;
+	private readonly wheelSensitivity: number;
+	private readonly rubberBand: number;
+	private readonly springTime: number;
+	private readonly clock: IAnimationClock;
+
+	/** Last position of the dragging pointer, null when not dragging */
+	private dragPosition: number = null;
+	/** Distance between the 2 pinching touches when the pinch started, null when not pinching */
+	private pinchStartDistance: number = null;
+	private pinchStartScale: number;
+	private pinchCenter: number;
+	private panSamples: Sample[] = [];
+	private zoomSamples: Sample[] = [];
+	/** Magnification added by the wheel since its stream of events started */
+	private wheelSamples: Sample[] = [];
+	/** Displacement per millisecond */
+	private panVelocity = 0;
+	/** Magnification per millisecond */
+	private zoomVelocity = 0;
+	private zoomHinge = 0;
+	private frame: unknown = null;
+	private lastFrameTime: number;
+
+	constructor(private numberLine: NumberLine, options: IPanZoomControllerOptions = {}) {
+		this.friction = options.friction ?? 0.004;
+		this.minVelocity = options.minVelocity ?? 0.02;
+		this.minZoomVelocity = options.minZoomVelocity ?? 0.0005;
+		this.velocityWindow = options.velocityWindow ?? 100;
+		this.wheelSensitivity = options.wheelSensitivity ?? 0.01;
+		this.rubberBand = options.rubberBand ?? 0.5;
+		this.springTime = options.springTime ?? 80;
+		this.clock = options.clock || frameClock;
+	}
+
+	/** True while momentum or springing back is moving the number line */
+	get moving(): boolean {
+		return this.frame != null;
+	}
+
+	/**
+	 * Pans the number line by dragging and flings it on release
+	 * @param sample The pointer event
+	 */
+	pointer(sample: IPointerSample) {
+		switch(sample.type){
+			case "down":
+				this.startDrag(sample.position, sample.time);
+				break;
+			case "move":
+				this.drag(sample.position, sample.time);
+				break;
+			case "up":
+				this.drag(sample.position, sample.time);
+				this.release(sample.time);
+				break;
+			case "cancel":
+				this.dragPosition = null;
+				this.startMomentum(0, 0);
+				break;
+		}
+	}
+
+	/**
+	 * Zooms around the position of the wheel. A stream of wheel events keeps zooming with momentum
+	 * between the events and after the last one, at the rate of the events within the velocity window.
+	 * @param sample The wheel event
+	 */
+	wheel(sample: IWheelSample) {
+		const delta = sample.delta * this.wheelSensitivity;
+		const last = this.wheelSamples[this.wheelSamples.length - 1];
+		if(last != undefined && sample.time - last.time > this.velocityWindow){
+			// a new stream, its first event has no rate yet
+			this.wheelSamples = [];
+		}
+		const total = this.wheelSamples.length == 0 ? 0 : last.value;
+		this.numberLine.zoomAround(sample.position, delta);
+		// only the wheel deltas count, not the momentum between the events
+		this.record(this.wheelSamples, sample.time, total + delta);
+		this.zoomHinge = sample.position;
+		this.startMomentum(this.panVelocity, this.velocityOf(this.wheelSamples, sample.time));
+	}
+
+	/**
+	 * Drags with a single touch, pinches with 2 touches and flings on release
+	 * @param sample The touch event
+	 */
+	touch(sample: ITouchSample) {
+		const touches = sample.touches;
+		if(sample.type == "cancel"){
+			this.dragPosition = null;
+			this.pinchStartDistance = null;
+			this.startMomentum(0, 0);
+			return;
+		}
+		if(touches.length >= 2){
+			const distance = Math.abs(touches[1].position - touches[0].position);
+			const center = (touches[0].position + touches[1].position) / 2;
+			if(this.pinchStartDistance == null){
+				this.startPinch(distance, center, sample.time);
+			}
+			else{
+				this.pinch(distance, center, sample.time);
+			}
+			return;
+		}
+		if(this.pinchStartDistance != null){
+			// a finger was lifted, keep the zoom momentum and carry on dragging with the remaining one
+			this.pinchStartDistance = null;
+			this.zoomVelocity = this.velocityOf(this.zoomSamples, sample.time);
+			if(touches.length == 1){
+				this.dragPosition = touches[0].position;
+				this.panSamples = [{ time: sample.time, value: this.numberLine.displacement }];
+			}
+			else{
+				this.startMomentum(0, this.zoomVelocity);
+			}
+			return;
+		}
+		if(touches.length == 1){
+			if(sample.type == "start" || this.dragPosition == null){
+				this.startDrag(touches[0].position, sample.time);
+			}
+			else{
+				this.drag(touches[0].position, sample.time);
+			}
+		}
+		else if(this.dragPosition != null){
+			this.release(sample.time);
+		}
+	}
+
+	/** Stops any momentum and springs the number line back within bounds immediately */
+	stop() {
+		this.cancelFrame();
+		this.panVelocity = 0;
+		this.zoomVelocity = 0;
+		this.numberLine.panBy(0);
+	}
+
+	private startDrag(position: number, time: number) {
+		this.cancelFrame();
+		this.dragPosition = position;
+		this.panSamples = [{ time: time, value: this.numberLine.displacement }];
+		this.zoomVelocity = 0;
+	}
+
+	private drag(position: number, time: number) {
+		if(this.dragPosition == null){
+			return;
+		}
+		this.panWithResistance(this.numberLine.toNaturalPosition(this.dragPosition) - this.numberLine.toNaturalPosition(position));
+		this.dragPosition = position;
+		this.record(this.panSamples, time, this.numberLine.displacement);
+	}
+
+	private release(time: number) {
+		this.dragPosition = null;
+		this.startMomentum(this.velocityOf(this.panSamples, time), this.zoomVelocity);
+	}
+
+	private startPinch(distance: number, center: number, time: number) {
+		this.cancelFrame();
+		this.dragPosition = null;
+		this.pinchStartDistance = Math.max(distance, 1);
+		this.pinchStartScale = this.numberLine.unitLength / this.numberLine.unitValue;
+		this.pinchCenter = center;
+		this.zoomSamples = [{ time: time, value: this.numberLine.magnification }];
+		this.panVelocity = 0;
+	}
+
+	private pinch(distance: number, center: number, time: number) {
+		const numberLine = this.numberLine;
+		const scale = this.pinchStartScale * Math.max(distance, 1) / this.pinchStartDistance;
+		const magnification = numberLine.zoomStrategy.magnificationFor(1, scale, numberLine);
+		numberLine.batch(() => {
+			numberLine.zoomAround(this.pinchCenter, magnification - numberLine.magnification);
+			numberLine.panBy(numberLine.toNaturalPosition(this.pinchCenter) - numberLine.toNaturalPosition(center));
+		});
+		this.pinchCenter = center;
+		this.zoomHinge = center;
+		this.record(this.zoomSamples, time, numberLine.magnification);
+	}
+
+	/** Pans by the delta, only applying a fraction of it beyond the bounds */
+	private panWithResistance(delta: number) {
+		const [lowest, highest] = this.numberLine.displacementBounds();
+		const current = this.numberLine.displacement;
+		const target = current + delta;
+		const within = Math.min(Math.max(target, lowest), highest);
+		// the part of the target beyond the bounds, minus what was already beyond them
+		const excess = target - within;
+		const previousExcess = current - Math.min(Math.max(current, lowest), highest);
+		const resisted = within + previousExcess + (excess - previousExcess) * this.rubberBand;
+		this.numberLine.panTo(resisted, false);
+	}
+
+	private record(samples: Sample[], time: number, value: number) {
+		samples.push({ time: time, value: value });
+		while(samples.length > 2 && time - samples[0].time > this.velocityWindow){
+			samples.shift();
+		}
+	}
+
+	/** Change per millisecond over the samples within the velocity window of the given time */
+	private velocityOf(samples: Sample[], time: number): number {
+		const recent = samples.filter(sample => time - sample.time <= this.velocityWindow);
+		if(recent.length < 2){
+			return 0;
+		}
+		const first = recent[0];
+		const last = recent[recent.length - 1];
+		const elapsed = last.time - first.time;
+		return elapsed > 0 ? (last.value - first.value) / elapsed : 0;
+	}
+
+	private startMomentum(panVelocity: number, zoomVelocity: number) {
+		this.cancelFrame();
+		this.panVelocity = Math.abs(panVelocity) < this.minVelocity ? 0 : panVelocity;
+		this.zoomVelocity = Math.abs(zoomVelocity) < this.minZoomVelocity ? 0 : zoomVelocity;
+		if(this.panVelocity == 0 && this.zoomVelocity == 0 && !this.outOfBounds()){
+			return;
+		}
+		this.lastFrameTime = this.clock.now();
+		this.frame = this.clock.requestFrame(() => this.step());
+	}
+
+	private step() {
+		const now = this.clock.now();
+		const elapsed = now - this.lastFrameTime;
+		this.lastFrameTime = now;
+		const numberLine = this.numberLine;
+		numberLine.batch(() => {
+			if(this.zoomVelocity != 0){
+				numberLine.zoomAround(this.zoomHinge, this.zoomVelocity * elapsed);
+			}
+			if(this.outOfBounds()){
+				this.panVelocity = 0;
+				this.springBack(elapsed);
+			}
+			else if(this.panVelocity != 0 && numberLine.panBy(this.panVelocity * elapsed)){
+				// ran into a bound
+				this.panVelocity = 0;
+			}
+		});
+		const decay = Math.exp(-this.friction * elapsed);
+		this.panVelocity = Math.abs(this.panVelocity * decay) < this.minVelocity ? 0 : this.panVelocity * decay;
+		this.zoomVelocity = Math.abs(this.zoomVelocity * decay) < this.minZoomVelocity ? 0 : this.zoomVelocity * decay;
+		if(this.panVelocity == 0 && this.zoomVelocity == 0 && !this.outOfBounds()){
+			this.frame = null;
+			return;
+		}
+		this.frame = this.clock.requestFrame(() => this.step());
+	}
+
+	/** Moves the displacement exponentially towards the nearest bound, snapping once it is close enough */
+	private springBack(elapsed: number) {
+		const [lowest, highest] = this.numberLine.displacementBounds();
+		const current = this.numberLine.displacement;
+		const bound = Math.min(Math.max(current, lowest), highest);
+		const next = bound + (current - bound) * Math.exp(-elapsed / this.springTime);
+		if(Math.abs(next - bound) < 0.5){
+			this.numberLine.panTo(bound);
+		}
+		else{
+			this.numberLine.panTo(next, false);
+		}
+	}
+
+	private outOfBounds(): boolean {
+		const [lowest, highest] = this.numberLine.displacementBounds();
+		const displacement = this.numberLine.displacement;
+		return displacement < lowest || displacement > highest;
+	}
+
+	private cancelFrame() {
+		if(this.frame != null){
+			this.clock.cancelFrame(this.frame);
+			this.frame = null;
+		}
+	}
+}
@@ -0,0 +1,182 @@
+/** A range of values with its own scale, see {@link INumberLineOptions.segments} */
+export interface IScaleSegment {
+	/** The smallest value of the segment */
+	from: number;
+	/** The biggest value of the segment */
+	to: number;
+	/**
+	 * Length per value relative to the scale of the number line, like 0.1 to squeeze
+	 * 10 times as many values into the same length
+	 * @default 1
+	 */
+	scale?: number;
+}
+
+/** Where a segment starts in the coordinate space of the segments */
+interface PlacedSegment {
+	from: number;
+	to: number;
+	scale: number;
+	/** Coordinate of the start of the segment, the scaled lengths of the segments before it */
+	offset: number;
+}
+
+/**
+ * Maps values of a broken axis to coordinates, where every segment is scaled on its own
+ * and the segments are laid out one after another. The breaks between them take no coordinates,
+ * they are given a fixed length in positions instead. Values before the first segment and after
+ * the last one follow the scale of the nearest segment.
+ */
+export class SegmentedScale {
+
+	private readonly segments: PlacedSegment[] = [];
+
+	/**
+	 * @param segments Segments in increasing order of values that don't overlap
+	 * @param gap Length of every break in positions
+	 */
+	constructor(segments: IScaleSegment[], readonly gap: number) {
+		let offset = 0;
+		for(const segment of segments){
+			const scale = segment.scale ?? 1;
+			this.segments.push({ from: segment.from, to: segment.to, scale: scale, offset: offset });
+			offset += (segment.to - segment.from) * scale;
+		}
+	}
+
+	/**
+	 * Checks that segments are ordered, don't overlap and have positive scales
+	 * @param segments The segments to check
+	 * @returns An error message, null if the segments are valid
+	 */
+	static validate(segments: IScaleSegment[]): string {
+		if(segments.length == 0){
+			return "There must be at least one segment";
+		}
+		for(let i = 0; i < segments.length; i++){
+			const segment = segments[i];
+			if(!(segment.from < segment.to)){
+				return "Segments must end after they start";
+			}
+			if(segment.scale != undefined && !(segment.scale > 0)){
+				return "Segment scales must be positive";
+			}
+			if(i > 0 && segment.from < segments[i - 1].to){
+				return "Segments must be in increasing order without overlapping";
+			}
+		}
+		return null;
+	}
+
+	/** Number of segments */
+	get count(): number {
+		return this.segments.length;
+	}
+
+	/**
+	 * Converts a value into the coordinate space of the segments. Values within a break
+	 * are at the end of the segment before it.
+	 * @param value Value on the number line
+	 */
+	toCoordinate(value: number): number {
+		const index = this.indexOf(value);
+		const segment = this.segments[index];
+		if(index < this.segments.length - 1 && value > segment.to){
+			return this.segments[index + 1].offset;
+		}
+		return segment.offset + (value - segment.from) * segment.scale;
+	}
+
+	/**
+	 * Converts a coordinate back into a value. Reverse of {@link toCoordinate}, except for
+	 * values within breaks, as the coordinate of a break is the end of the segment before it.
+	 * @param coordinate Coordinate in the space of the segments
+	 */
+	fromCoordinate(coordinate: number): number {
+		let segment = this.segments[0];
+		for(const next of this.segments){
+			if(next.offset > coordinate){
+				break;
+			}
+			segment = next;
+		}
+		return segment.from + (coordinate - segment.offset) / segment.scale;
+	}
+
+	/**
+	 * Number of breaks before the value, with the fraction of the break it is within
+	 * @param value Value on the number line
+	 */
+	breaksBefore(value: number): number {
+		const index = this.indexOf(value);
+		const segment = this.segments[index];
+		if(index < this.segments.length - 1 && value > segment.to){
+			const next = this.segments[index + 1];
+			return index + (value - segment.to) / (next.from - segment.to);
+		}
+		return index;
+	}
+
+	/**
+	 * Position of a value for the scale and displacement of the number line
+	 * @param value Value on the number line
+	 * @param ratio Length per coordinate
+	 * @param displacement Displacement of the number line
+	 */
+	positionOf(value: number, ratio: number, displacement: number): number {
+		return ratio * this.toCoordinate(value) - displacement + this.gap * this.breaksBefore(value);
+	}
+
+	/**
+	 * Value at a position for the scale and displacement of the number line. Positions
+	 * within breaks are interpolated between the values at both sides of the break.
+	 * @param position Position along the number line
+	 * @param ratio Length per coordinate
+	 * @param displacement Displacement of the number line
+	 */
+	valueAt(position: number, ratio: number, displacement: number): number {
+		let index = 0;
+		while(index < this.segments.length - 1 && position > this.positionsOf(index, ratio, displacement)[1]){
+			index++;
+		}
+		const segment = this.segments[index];
+		const start = this.positionsOf(index, ratio, displacement)[0];
+		if(position < start && index > 0 && this.gap > 0){
+			// within the break before the segment
+			const previous = this.segments[index - 1];
+			const fraction = (position - (start - this.gap)) / this.gap;
+			return previous.to + fraction * (segment.from - previous.to);
+		}
+		return segment.from + ((position + displacement - index * this.gap) / ratio - segment.offset) / segment.scale;
+	}
+
+	/**
+	 * Positions where a segment starts and ends
+	 * @param index Index of the segment
+	 * @param ratio Length per coordinate
+	 * @param displacement Displacement of the number line
+	 */
+	positionsOf(index: number, ratio: number, displacement: number): [number, number] {
+		const segment = this.segments[index];
+		const start = ratio * segment.offset - displacement + index * this.gap;
+		return [start, start + ratio * (segment.to - segment.from) * segment.scale];
+	}
+
+	/**
+	 * The segment at an index, with its scale filled in
+	 * @param index Index of the segment
+	 */
+	segmentAt(index: number): Readonly<Required<IScaleSegment>> {
+		const segment = this.segments[index];
+		return { from: segment.from, to: segment.to, scale: segment.scale };
+	}
+
+	/** Index of the last segment that starts at or before the value, the first one for values before all segments */
+	private indexOf(value: number): number {
+		let index = 0;
+		while(index < this.segments.length - 1 && this.segments[index + 1].from <= value){
+			index++;
+		}
+		return index;
+	}
+}
@@ -0,0 +1,143 @@
+import type { NumberLineViewModel } from "./number-line";
+
+/** Colors, fonts and sizes of the SVG renderer */
+export interface ISvgTheme {
+	/** Fill behind the number line, null for a transparent background */
+	background: string | null;
+	tickColor: string;
+	tickWidth: number;
+	/** Length of the tallest tick marks, as a fraction of the breadth */
+	tickLength: number;
+	labelColor: string;
+	fontFamily: string;
+	fontSize: number;
+	/** Space between the tallest tick marks and the labels */
+	labelGap: number;
+	/** Color of markers and ranges without a style in {@link styles} */
+	annotationColor: string;
+	/** Colors of markers and ranges by their style keys */
+	styles: { [style: string]: string };
+}
+
+export const defaultSvgTheme: ISvgTheme = {
+	background: null,
+	tickColor: "black",
+	tickWidth: 1,
+	tickLength: 0.5,
+	labelColor: "black",
+	fontFamily: "sans-serif",
+	fontSize: 12,
+	labelGap: 4,
+	annotationColor: "#2563eb",
+	styles: {}
+};
+
+export interface ISvgRendererOptions {
+	/**
+	 * Size across the number line, the height of a horizontal number line or the width of a vertical one.
+	 * The size along it is the length of the view model.
+	 * @default 50
+	 */
+	breadth?: number;
+	/** Overrides of the default theme */
+	theme?: Partial<ISvgTheme>;
+}
+
+/**
+ * Renders a view model into a standalone SVG document, without needing a DOM, so it runs in Node
+ * for printable reports and exports. Like the HTML renderer, tick marks are as tall as their height
+ * relative to the biggest value of the pattern, and labelled with the labels of the view model.
+ * Tick marks hang from the top edge of horizontal number lines and from the right edge of vertical ones.
+ * @param viewModel The view model to render
+ * @param options Size and theme
+ * @returns The SVG markup
+ */
+export function renderSvg(viewModel: NumberLineViewModel, options: ISvgRendererOptions = {}): string {
+	const [width, height] = sizeOf(viewModel, options);
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${svgContent(viewModel, options)}</svg>`;
+}
+
+/**
+ * Renders a view model into an svg element of the page, replacing what it had
+ * @param viewModel The view model to render
+ * @param svg The element to render into
+ * @param options Size and theme
+ * @returns The svg element
+ */
+export function renderSvgInto(viewModel: NumberLineViewModel, svg: SVGSVGElement, options: ISvgRendererOptions = {}): SVGSVGElement {
+	const [width, height] = sizeOf(viewModel, options);
+	svg.setAttribute("width", `${width}`);
+	svg.setAttribute("height", `${height}`);
+	svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+	svg.innerHTML = svgContent(viewModel, options);
+	return svg;
+}
+
+function sizeOf(viewModel: NumberLineViewModel, options: ISvgRendererOptions): [number, number] {
+	const breadth = options.breadth ?? 50;
+	return viewModel.numberLine.orientation == "vertical" ? [breadth, viewModel.length] : [viewModel.length, breadth];
+}
+
+/** The elements within the svg element */
+function svgContent(viewModel: NumberLineViewModel, options: ISvgRendererOptions): string {
+	const theme: ISvgTheme = { ...defaultSvgTheme, ...options.theme };
+	const lengthwise = viewModel.numberLine.orientation != "vertical";
+	const breadth = options.breadth ?? 50;
+	const [width] = sizeOf(viewModel, options);
+	const tallest = viewModel.numberLine.biggestTickPatternValue;
+	// the view model starts at 0 unless it is overscanned or built for a window
+	const along = (position: number) => position - viewModel.start;
+	// maps a position along and a distance from the edge the tick marks hang from to x and y
+	const point = (position: number, across: number): [number, number] =>
+		lengthwise ? [along(position), across] : [width - across, along(position)];
+	const colorOf = (style: string) => style != undefined ? theme.styles[style] ?? theme.annotationColor : theme.annotationColor;
+	const elements: string[] = [];
+
+	if(theme.background != null){
+		elements.push(`<rect width="100%" height="100%" fill="${escape(theme.background)}"/>`);
+	}
+
+	for(const range of viewModel.ranges){
+		if(range.offscreen == null && range.end > range.start){
+			const [x1, y1] = point(range.start, 0);
+			const [x2, y2] = point(range.end, breadth);
+			elements.push(`<rect class="range" x="${Math.min(x1, x2)}" y="${Math.min(y1, y2)}" width="${Math.abs(x2 - x1)}" height="${Math.abs(y2 - y1)}" fill="${escape(colorOf(range.style))}" fill-opacity="0.25"/>`);
+		}
+	}
+
+	const ticks = viewModel.tickMarks.map(tickMark => {
+		const [x1, y1] = point(tickMark.position, 0);
+		const [x2, y2] = point(tickMark.position, tickMark.height / tallest * theme.tickLength * breadth);
+		return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"/>`;
+	});
+	elements.push(`<g class="ticks" stroke="${escape(theme.tickColor)}" stroke-width="${theme.tickWidth}">${ticks.join("")}</g>`);
+
+	const labelOffset = theme.tickLength * breadth + theme.labelGap;
+	const labels = viewModel.tickMarks.filter(tickMark => tickMark.label != null).map(tickMark => {
+		const [x, y] = point(tickMark.position, labelOffset);
+		return `<text x="${x}" y="${y}">${escape(tickMark.label)}</text>`;
+	});
+	const labelAlignment = lengthwise ? `text-anchor="middle" dominant-baseline="hanging"` : `text-anchor="end" dominant-baseline="middle"`;
+	elements.push(`<g class="labels" fill="${escape(theme.labelColor)}" font-family="${escape(theme.fontFamily)}" font-size="${theme.fontSize}" ${labelAlignment}>${labels.join("")}</g>`);
+
+	for(const markerBreak of viewModel.breaks ?? []){
+		const [x1, y1] = point(markerBreak.start, breadth * 0.25);
+		const [x2, y2] = point(markerBreak.end, breadth * 0.75);
+		elements.push(`<path class="break" d="M${x1} ${y1}L${x2} ${y2}" stroke="${escape(theme.tickColor)}" fill="none"/>`);
+	}
+
+	for(const marker of viewModel.markers){
+		const [x1, y1] = point(marker.clippedPosition, 0);
+		const [x2, y2] = point(marker.clippedPosition, breadth);
+		const title = marker.label != undefined ? `<title>${escape(marker.label)}</title>` : "";
+		const offscreen = marker.offscreen != null ? ` data-offscreen="${marker.offscreen}"` : "";
+		elements.push(`<line class="marker" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${escape(colorOf(marker.style))}" stroke-width="2"${offscreen}>${title}</line>`);
+	}
+	return elements.join("");
+}
+
+const XML_ENTITIES: { [character: string]: string } = { "&": "&amp;", "<": "&lt;", ">": "&gt;", "\"": "&quot;", "'": "&apos;" };
+
+function escape(text: string): string {
+	return text.replace(/[&<>"']/g, character => XML_ENTITIES[character]);
+}
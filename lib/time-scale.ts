@@ -0,0 +1,192 @@
+import type { ITickMarkLabelStrategy } from "./number-line";
+
+/** Calendar units that tick marks of a time scale snap to */
+export type TimeUnit = "millisecond" | "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/** A step of a calendar unit, like 15 minutes or 3 months */
+export interface TimeInterval {
+	unit: TimeUnit;
+	step: number;
+}
+
+/** A tick mark of a time scale */
+export interface TimeTick {
+	/** Milliseconds since the unix epoch */
+	value: number;
+	/** Count of intervals from the start of the calendar, see {@link timeIndexOf} */
+	index: number;
+	/** True if the tick is at a boundary of the major interval */
+	major: boolean;
+	/** Fraction of the major interval before the tick */
+	fraction: number;
+}
+
+const MILLISECONDS: { [unit in TimeUnit]: number } = {
+	millisecond: 1,
+	second: 1000,
+	minute: 60 * 1000,
+	hour: 60 * 60 * 1000,
+	day: 24 * 60 * 60 * 1000,
+	week: 7 * 24 * 60 * 60 * 1000,
+	// average lengths, only used to choose intervals
+	month: 30.436875 * 24 * 60 * 60 * 1000,
+	year: 365.2425 * 24 * 60 * 60 * 1000
+};
+
+/** Weeks start on mondays, the one before the unix epoch was on 1969-12-29 */
+const FIRST_WEEK = -3 * MILLISECONDS.day;
+
+/** Intervals in increasing order, years continue in a 1-2-5 sequence beyond these */
+const INTERVALS: TimeInterval[] = [
+	...[1, 2, 5, 10, 20, 50, 100, 200, 500].map(step => ({ unit: "millisecond" as TimeUnit, step: step })),
+	...[1, 2, 5, 10, 15, 30].map(step => ({ unit: "second" as TimeUnit, step: step })),
+	...[1, 2, 5, 10, 15, 30].map(step => ({ unit: "minute" as TimeUnit, step: step })),
+	...[1, 2, 3, 6, 12].map(step => ({ unit: "hour" as TimeUnit, step: step })),
+	...[1, 2].map(step => ({ unit: "day" as TimeUnit, step: step })),
+	...[1, 2].map(step => ({ unit: "week" as TimeUnit, step: step })),
+	...[1, 2, 3, 6].map(step => ({ unit: "month" as TimeUnit, step: step }))
+];
+
+/**
+ * Finds the smallest calendar interval that spans at least the given duration
+ * @param duration Duration in milliseconds
+ */
+export function timeIntervalFor(duration: number): TimeInterval {
+	const interval = INTERVALS.find(interval => interval.step * MILLISECONDS[interval.unit] >= duration);
+	if(interval != undefined){
+		return interval;
+	}
+	const years = duration / MILLISECONDS.year;
+	const magnitude = Math.pow(10, Math.max(0, Math.floor(Math.log10(years))));
+	const step = [1, 2, 5, 10].map(multiple => multiple * magnitude).find(step => step >= years);
+	return { unit: "year", step: step };
+}
+
+/**
+ * Counts the intervals from the start of the calendar till the given time, rounded down.
+ * Fixed length units are counted from the unix epoch, weeks from the monday before it,
+ * and months and years from the year 0.
+ * @param time Milliseconds since the unix epoch
+ * @param interval The interval to count
+ * @param offset Offset of the time zone in milliseconds
+ */
+export function timeIndexOf(time: number, interval: TimeInterval, offset = 0): number {
+	const local = time + offset;
+	switch(interval.unit){
+		case "month": {
+			const date = new Date(local);
+			return Math.floor((date.getUTCFullYear() * 12 + date.getUTCMonth()) / interval.step);
+		}
+		case "year":
+			return Math.floor(new Date(local).getUTCFullYear() / interval.step);
+		case "week":
+			return Math.floor((local - FIRST_WEEK) / (MILLISECONDS.week * interval.step));
+		default:
+			return Math.floor(local / (MILLISECONDS[interval.unit] * interval.step));
+	}
+}
+
+/**
+ * The time at the start of an interval, the inverse of {@link timeIndexOf}
+ * @param index Count of intervals from the start of the calendar
+ * @param interval The interval
+ * @param offset Offset of the time zone in milliseconds
+ */
+export function timeAt(index: number, interval: TimeInterval, offset = 0): number {
+	switch(interval.unit){
+		case "month":
+			return startOfMonth(0, index * interval.step) - offset;
+		case "year":
+			return startOfMonth(index * interval.step, 0) - offset;
+		case "week":
+			return FIRST_WEEK + index * MILLISECONDS.week * interval.step - offset;
+		default:
+			return index * MILLISECONDS[interval.unit] * interval.step - offset;
+	}
+}
+
+/**
+ * Lists the boundaries of the minor and the major intervals within a time range.
+ * Month lengths and leap years follow the calendar.
+ * @param start The starting time in milliseconds since the unix epoch
+ * @param end The ending time
+ * @param minor Interval between the tick marks
+ * @param major Interval between the major tick marks
+ * @param offset Offset of the time zone in milliseconds, boundaries are local to it
+ */
+export function timeTicks(start: number, end: number, minor: TimeInterval, major: TimeInterval, offset = 0): TimeTick[] {
+	const ticks = new Map<number, TimeTick>();
+	const addTicks = (interval: TimeInterval) => {
+		for(let index = timeIndexOf(start, interval, offset); ; index++){
+			const value = timeAt(index, interval, offset);
+			if(value > end){
+				break;
+			}
+			if(value >= start && !ticks.has(value)){
+				ticks.set(value, { value: value, index: index, ...majorFraction(value, major, offset) });
+			}
+		}
+	};
+	addTicks(minor);
+	// major boundaries aren't always minor ones, like months with a minor interval of 2 days
+	addTicks(major);
+	return [...ticks.values()].sort((a, b) => a.value - b.value);
+}
+
+function majorFraction(value: number, major: TimeInterval, offset: number): { major: boolean, fraction: number } {
+	const index = timeIndexOf(value, major, offset);
+	const majorStart = timeAt(index, major, offset);
+	const majorEnd = timeAt(index + 1, major, offset);
+	return { major: value == majorStart, fraction: (value - majorStart) / (majorEnd - majorStart) };
+}
+
+/** Milliseconds since the unix epoch at the start of a month in UTC, months beyond 11 roll over to the next years */
+function startOfMonth(year: number, month: number): number {
+	const date = new Date(0);
+	// unlike Date.UTC, this doesn't map the years 0 to 99 to the 1900s
+	date.setUTCFullYear(year, month, 1);
+	return date.getTime();
+}
+
+/**
+ * Labels the tick marks of a time scale with the precision of the interval between them,
+ * in the time zone of the number line. Years are labelled like 2024, months like 2024-03,
+ * days and weeks like 03-01, hours and minutes like 14:05 and seconds like 14:05:30.
+ * Major tick marks get the precision of the major interval, so midnight between hours is 03-01.
+ */
+export function timeLabels(): ITickMarkLabelStrategy {
+	return {
+		labelFor: (value, index, position, numberLine) => {
+			const duration = index == 0 ? numberLine.unitValue : numberLine.unitValue / numberLine.tickCount;
+			return formatTime(value, timeIntervalFor(duration).unit, numberLine.timeZoneOffset);
+		}
+	};
+}
+
+/**
+ * Formats a time with the precision of a calendar unit
+ * @param time Milliseconds since the unix epoch
+ * @param unit The smallest unit shown
+ * @param timeZoneOffset Offset of the time zone from UTC in minutes
+ */
+export function formatTime(time: number, unit: TimeUnit, timeZoneOffset = 0): string {
+	const date = new Date(time + timeZoneOffset * 60000);
+	const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+	const clock = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+	switch(unit){
+		case "year":
+			return `${date.getUTCFullYear()}`;
+		case "month":
+			return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+		case "day":
+		case "week":
+			return `${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+		case "hour":
+		case "minute":
+			return clock;
+		case "second":
+			return `${clock}:${pad(date.getUTCSeconds())}`;
+		case "millisecond":
+			return `${clock}:${pad(date.getUTCSeconds())}.${pad(date.getUTCMilliseconds(), 3)}`;
+	}
+}
@@ -0,0 +1,95 @@
+import { IBuildViewModelOptions, INumberLineOptions, ITickMarkCache, NumberLine, NumberLineViewModel, TickMarkViewModel } from "./number-line";
+
+/** A view model along with the differences from the previous one built by the same {@link ViewModelBuilder} */
+export interface IncrementalViewModel extends NumberLineViewModel {
+	/** Tick marks that weren't in the previous view model */
+	entered: TickMarkViewModel[];
+	/** Tick marks of the previous view model that aren't in this one */
+	exited: TickMarkViewModel[];
+	/**
+	 * True if the zoom or the options changed since the previous view model, so none of its
+	 * tick marks could be reused. All of them exited and all the new ones entered.
+	 */
+	rebuilt: boolean;
+}
+
+/** The state of the number line the cached tick marks were built for */
+interface CacheKey {
+	magnification: number;
+	unitLength: number;
+	unitValue: number;
+	options: Readonly<INumberLineOptions>;
+}
+
+/**
+ * Labels are kept for values that scrolled out of view, so that panning back doesn't label them again,
+ * till there are this many. Beyond it only the labels of the visible tick marks are kept.
+ */
+const LABEL_CACHE_LIMIT = 1000;
+
+/**
+ * Builds view models of a number line frame after frame, reusing the tick mark objects
+ * of the previous frame while only the displacement changes and labelling every value once.
+ * The differences from the previous frame let DOM renderers patch their nodes instead of rebuilding them.
+ * Labels are memoized by value, so label strategies must not depend on the position of the tick mark.
+ * Reused tick marks are updated in place, so they change in the view models of earlier frames too.
+ */
+export class ViewModelBuilder {
+
+	private cache: ITickMarkCache = { tickMarks: new Map(), labels: new Map() };
+	private key: CacheKey = null;
+
+	constructor(readonly numberLine: NumberLine) {
+	}
+
+	/**
+	 * Builds the view model of the number line, like {@link NumberLine.buildViewModel}
+	 * @param length Length of the number line in whatever unit is used for rendering it
+	 * @param options Extra passes over the view model, like laying out labels
+	 * @returns The view model with the tick marks that entered or exited the viewport
+	 */
+	build(length: number, options: IBuildViewModelOptions = {}): IncrementalViewModel {
+		const previous = this.cache.tickMarks;
+		const rebuilt = !this.isValid();
+		if(rebuilt){
+			this.reset();
+		}
+		const viewModel = this.numberLine.buildViewModel(length, { ...options, cache: this.cache });
+		const current = new Map<number, TickMarkViewModel>(viewModel.tickMarks.map(tickMark => [tickMark.value, tickMark]));
+		const entered = rebuilt ? viewModel.tickMarks : viewModel.tickMarks.filter(tickMark => !previous.has(tickMark.value));
+		const exited = rebuilt ? [...previous.values()] : [...previous.values()].filter(tickMark => !current.has(tickMark.value));
+		this.cache.tickMarks = current;
+		if(this.cache.labels.size > LABEL_CACHE_LIMIT){
+			// the labels of the view model may have been dropped by the label layout, so they are taken from the cache
+			const labels = this.cache.labels;
+			this.cache.labels = new Map(viewModel.tickMarks
+				.filter(tickMark => labels.has(tickMark.value))
+				.map(tickMark => [tickMark.value, labels.get(tickMark.value)]));
+		}
+		return { ...viewModel, entered: entered, exited: exited, rebuilt: rebuilt };
+	}
+
+	/** Forgets the cached tick marks and labels, so the next build starts over */
+	reset() {
+		this.cache = { tickMarks: new Map(), labels: new Map() };
+		const numberLine = this.numberLine;
+		this.key = {
+			magnification: numberLine.magnification,
+			unitLength: numberLine.unitLength,
+			unitValue: numberLine.unitValue,
+			options: numberLine.options
+		};
+	}
+
+	/** True if the cached tick marks were built at the current zoom with the current options */
+	private isValid(): boolean {
+		const numberLine = this.numberLine;
+		const key = this.key;
+		return key != null
+			&& key.magnification == numberLine.magnification
+			&& key.unitLength == numberLine.unitLength
+			&& key.unitValue == numberLine.unitValue
+			// options are replaced as a whole by updateOptions
+			&& key.options == numberLine.options;
+	}
+}
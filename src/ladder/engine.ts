@@ -18,10 +18,9 @@ export function createLadderEngine(k: number, width: number): LadderEngine {
 
 	const labelStrategy: ITickMarkLabelStrategy = {
 		labelFor: (value) => {
-			const half = maxAbsValue / 2;
-			const eps = Math.max(1e-9, unitValue / 10);
-			const isClose = (a: number, b: number) => Math.abs(a - b) <= eps;
-			if (isClose(value, 0) || isClose(Math.abs(value), half) || isClose(Math.abs(value), maxAbsValue)) return "1";
+			// tick values are exact decimals, so they can be compared directly
+			const abs = Math.abs(value);
+			if (abs === 0 || abs === maxAbsValue / 2 || abs === maxAbsValue) return "1";
 			return null;
 		},
 	};
@@ -37,6 +36,9 @@ export function createLadderEngine(k: number, width: number): LadderEngine {
 		labelStrategy,
 		initialMagnification: 0,
 		initialDisplacement: 0,
+		// values and panning stay within [-10^k, +10^k]
+		constraints: { minValue: -maxAbsValue, maxValue: maxAbsValue },
+		viewportLength: safeWidth,
 	};
 
 	const numberLine = new NumberLine(options);
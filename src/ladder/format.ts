@@ -1,3 +1,5 @@
+import { formatChineseUnits } from "../../lib/label-strategies";
+
 export type DisplayMode = "friendly" | "full";
 
 function groupDigits(digits: string): string {
@@ -29,33 +31,7 @@ export function pow10BigInt(k: number): bigint {
 }
 
 export function formatFriendlyBigInt(value: bigint): string {
-	const negative = value < 0n;
-	let abs = negative ? -value : value;
-
-	const YI = 100000000n; // 10^8
-	const WAN_YI = 1000000000000n; // 10^12
-	const YI_YI = 10000000000000000n; // 10^16
-
-	let core: string;
-	if (abs === 0n) {
-		core = "0";
-	} else if (abs >= YI_YI) {
-		const q = abs / YI_YI;
-		core = `${q.toString()} 亿亿/京`;
-	} else if (abs >= WAN_YI) {
-		const q = abs / WAN_YI;
-		core = `${q.toString()} 万亿`;
-	} else if (abs >= YI) {
-		const q = abs / YI;
-		core = `${q.toString()} 亿`;
-	} else if (abs >= 10000n) {
-		const q = abs / 10000n;
-		core = `${q.toString()} 万`;
-	} else {
-		core = abs.toString();
-	}
-
-	return negative ? `-${core}` : core;
+	return formatChineseUnits(value);
 }
 
 export function formatFriendlyNumber(value: number): string {
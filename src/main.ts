@@ -1,4 +1,5 @@
-import { clamp } from "../lib/number-line";
+import { clamp, tickValueAt } from "../lib/number-line";
+import { easeInOutCubic } from "../lib/animation";
 import { createLadderEngine, LadderEngine } from "./ladder/engine";
 import {
 	formatFriendlyBigInt,
@@ -151,9 +152,8 @@ const stepper = new DiscreteStepper(state.k, (nextK) => {
 	const fromEngine = createLadderEngine(state.k, width);
 	const toEngine = createLadderEngine(nextK, width);
 
-	const toMax = toEngine.maxAbsValue;
-	const toA = clamp(state.valueA, -toMax, toMax);
-	const toB = state.symmetric ? -toA : clamp(state.valueB, -toMax, toMax);
+	const toA = toEngine.numberLine.clampValue(state.valueA);
+	const toB = state.symmetric ? -toA : toEngine.numberLine.clampValue(state.valueB);
 
 	transition = {
 		fromK: state.k,
@@ -202,10 +202,9 @@ function render() {
 		engine = createLadderEngine(state.k, width);
 	}
 
-	const max = engine.maxAbsValue;
-	state.valueA = clamp(state.valueA, -max, max);
+	state.valueA = engine.numberLine.clampValue(state.valueA);
 	if (state.symmetric) state.valueB = -state.valueA;
-	else state.valueB = clamp(state.valueB, -max, max);
+	else state.valueB = engine.numberLine.clampValue(state.valueB);
 
 	const nextScaleLabel = formatScaleLabel(state.k);
 	const nextRangeLabel = `${formatRangeLabel(state.k)}`;
@@ -260,6 +259,9 @@ function render() {
 		height,
 		xA: ball.xA,
 		xB: ball.xB,
+		valueA: state.valueA,
+		valueB: state.valueB,
+		maxAbsValue: engine.maxAbsValue,
 		labelA: formatValue(state.valueA, state.fullNumber, state.k),
 		labelB: formatValue(state.valueB, state.fullNumber, state.k),
 		symmetric: state.symmetric,
@@ -387,8 +389,14 @@ function createBallUI(which: "a" | "b"): BallUI {
 	knob.style.background = color.fill;
 	knob.style.boxShadow = "0 8px 18px rgba(15, 23, 42, 0.16)";
 
+	// the hit area doubles as the accessible slider: focusable, with its value kept in sync by updateBallUI
 	const hit = document.createElement("div");
-	hit.className = "absolute bottom-10 left-0 -translate-x-1/2 -translate-y-1/2";
+	hit.className = "nl-ball-hit absolute bottom-10 left-0 -translate-x-1/2 -translate-y-1/2";
+	hit.tabIndex = 0;
+	hit.setAttribute("role", "slider");
+	hit.setAttribute("aria-orientation", "horizontal");
+	hit.setAttribute("aria-label", which === "a" ? "数值 A" : "数值 B");
+	hit.setAttribute("aria-keyshortcuts", "ArrowLeft ArrowRight PageUp PageDown Home End + -");
 	hit.style.width = "52px";
 	hit.style.height = "52px";
 	hit.style.borderRadius = "999px";
@@ -416,6 +424,9 @@ function updateOverlayUI(
 		height: number;
 		xA: number;
 		xB: number;
+		valueA: number;
+		valueB: number;
+		maxAbsValue: number;
 		labelA: string;
 		labelB: string;
 		symmetric: boolean;
@@ -436,6 +447,8 @@ function updateOverlayUI(
 
 	updateBallUI(ui.ballA, p.xA, p.fromOpacity, p.toOpacity);
 	updateBallUI(ui.ballB, p.xB, p.fromOpacity, p.toOpacity);
+	updateBallAria(ui.ballA, p.valueA, p.labelA, p.maxAbsValue);
+	updateBallAria(ui.ballB, p.valueB, p.labelB, p.maxAbsValue);
 }
 
 function updateBallUI(ball: BallUI, x: number, fromOpacity: number, toOpacity: number) {
@@ -445,6 +458,19 @@ function updateBallUI(ball: BallUI, x: number, fromOpacity: number, toOpacity: n
 	ball.ghost.style.opacity = String(fromOpacity);
 }
 
+function updateBallAria(ball: BallUI, value: number, label: string, maxAbsValue: number) {
+	// only touch attributes that changed, screen readers may announce every write
+	const attributes: [string, string][] = [
+		["aria-valuemin", String(-maxAbsValue)],
+		["aria-valuemax", String(maxAbsValue)],
+		["aria-valuenow", String(value)],
+		["aria-valuetext", label],
+	];
+	for (const [name, next] of attributes) {
+		if (ball.hit.getAttribute(name) !== next) ball.hit.setAttribute(name, next);
+	}
+}
+
 function valueToXWithEngine(value: number, eng: LadderEngine): number {
 	// valueAt(pos) = (pos + displacement) / (unitLength/unitValue)
 	// => pos = value*(unitLength/unitValue) - displacement
@@ -499,6 +525,63 @@ function setSymmetricMode(on: boolean) {
 segSymmetric.addEventListener("click", () => setSymmetricMode(true));
 segIndependent.addEventListener("click", () => setSymmetricMode(false));
 
+// Keyboard (balls as sliders): arrows move one tick, PageUp/PageDown one unit, Home/End to the range ends, +/- zoom.
+for (const [which, ball] of [["a", overlayUI.ballA], ["b", overlayUI.ballB]] as const) {
+	ball.hit.addEventListener("keydown", (e) => {
+		// leave browser shortcuts like Ctrl/Cmd +/- alone
+		if (e.ctrlKey || e.metaKey || e.altKey) return;
+		if (e.key === "+" || e.key === "=") {
+			bumpK(+1);
+		} else if (e.key === "-" || e.key === "_") {
+			bumpK(-1);
+		} else {
+			const next = keyboardValue(e.key, which === "a" ? state.valueA : state.valueB);
+			if (next === null) return;
+			setBallValue(which, next);
+		}
+		e.preventDefault();
+	});
+}
+
+function keyboardValue(key: string, value: number): number | null {
+	if (!engine) return null;
+	const { unitValue, tickCount } = engine.numberLine;
+	// moves snap to the grid of the step, so values set by dragging land back on tick marks.
+	// steps are counted in tick indices, so the values are exact tick values like 0.07
+	const stepBy = (ticks: number, direction: number) =>
+		tickValueAt((Math.round((value * tickCount) / (unitValue * ticks)) + direction) * ticks, unitValue, tickCount);
+	switch (key) {
+		case "ArrowRight":
+		case "ArrowUp":
+			return stepBy(1, +1);
+		case "ArrowLeft":
+		case "ArrowDown":
+			return stepBy(1, -1);
+		case "PageUp":
+			return stepBy(tickCount, +1);
+		case "PageDown":
+			return stepBy(tickCount, -1);
+		case "Home":
+			return -engine.maxAbsValue;
+		case "End":
+			return engine.maxAbsValue;
+		default:
+			return null;
+	}
+}
+
+function setBallValue(which: "a" | "b", value: number) {
+	if (!engine) return;
+	if (which === "b") {
+		if (state.symmetric) state.valueA = engine.numberLine.clampValue(-value);
+		else state.valueB = engine.numberLine.clampValue(value);
+	} else {
+		state.valueA = engine.numberLine.clampValue(value);
+	}
+	if (state.symmetric) state.valueB = -state.valueA;
+	requestRender();
+}
+
 // Drag balls (mouse & iPad single finger): move values.
 let dragging = false;
 let pinching = false;
@@ -514,10 +597,10 @@ function applyValueAtClientPoint(clientX: number, clientY: number, opts?: { emit
 	const value = engine.numberLine.valueAt(x);
 	const chosen = draggingBall ?? pickNearestBall(clientX);
 	if (chosen === "b") {
-		if (state.symmetric) state.valueA = clamp(-value, -engine.maxAbsValue, engine.maxAbsValue);
-		else state.valueB = clamp(value, -engine.maxAbsValue, engine.maxAbsValue);
+		if (state.symmetric) state.valueA = engine.numberLine.clampValue(-value);
+		else state.valueB = engine.numberLine.clampValue(value);
 	} else {
-		state.valueA = clamp(value, -engine.maxAbsValue, engine.maxAbsValue);
+		state.valueA = engine.numberLine.clampValue(value);
 	}
 	if (state.symmetric) state.valueB = -state.valueA;
 
@@ -554,10 +637,10 @@ axis.addEventListener("pointermove", (e) => {
 	const y = clamp(e.clientY - rect.top, 0, rect.height);
 	const value = engine.numberLine.valueAt(x);
 	if (draggingBall === "b") {
-		if (state.symmetric) state.valueA = clamp(-value, -engine.maxAbsValue, engine.maxAbsValue);
-		else state.valueB = clamp(value, -engine.maxAbsValue, engine.maxAbsValue);
+		if (state.symmetric) state.valueA = engine.numberLine.clampValue(-value);
+		else state.valueB = engine.numberLine.clampValue(value);
 	} else {
-		state.valueA = clamp(value, -engine.maxAbsValue, engine.maxAbsValue);
+		state.valueA = engine.numberLine.clampValue(value);
 	}
 	if (state.symmetric) state.valueB = -state.valueA;
 
@@ -646,10 +729,10 @@ axis.addEventListener(
 			// touch drag defaults to nearest ball
 			const chosen = draggingBall ?? pickNearestBall(t.clientX);
 			if (chosen === "b") {
-				if (state.symmetric) state.valueA = clamp(-value, -engine.maxAbsValue, engine.maxAbsValue);
-				else state.valueB = clamp(value, -engine.maxAbsValue, engine.maxAbsValue);
+				if (state.symmetric) state.valueA = engine.numberLine.clampValue(-value);
+				else state.valueB = engine.numberLine.clampValue(value);
 			} else {
-				state.valueA = clamp(value, -engine.maxAbsValue, engine.maxAbsValue);
+				state.valueA = engine.numberLine.clampValue(value);
 			}
 			if (state.symmetric) state.valueB = -state.valueA;
 
@@ -822,10 +905,6 @@ function computeBallPositions(eng: LadderEngine) {
 	};
 }
 
-function easeInOutCubic(t: number) {
-	return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
-}
-
 // Initial render + resize handling
 const ro = new ResizeObserver(() => {
 	particles.resize();